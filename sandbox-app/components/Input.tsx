@@ -3,27 +3,27 @@ import './Input.css';
 
 export interface InputProps<T> {
   label?: string;
-  value?: T;
+  input: T | string;
   errors: string[];
   required: boolean;
   touched: boolean;
   valid: boolean;
   onBlur: () => void;
-  onChange: (value: T) => void;
+  onInputChange: (input: string) => void;
   onRemove?: () => void;
 }
 
-export function Input({
+export function Input<T>({
   label,
-  value,
+  input,
   errors,
   required,
   touched,
   valid,
   onBlur,
-  onChange,
+  onInputChange,
   onRemove,
-}: InputProps<string>): JSX.Element {
+}: InputProps<T>): JSX.Element {
   return (
     <div className={!touched ? 'idle' : !valid ? 'invalid' : 'valid'}>
       <div>
@@ -32,8 +32,8 @@ export function Input({
         </label>
         <input
           onBlur={onBlur}
-          value={value}
-          onChange={(v) => onChange(v.target.value)}
+          value={String(input ?? '')}
+          onChange={(v) => onInputChange(v.target.value)}
         />
         {onRemove && (
           <button type="button" onClick={() => onRemove()}>
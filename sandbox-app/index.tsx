@@ -1,8 +1,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom';
-import { useForm } from '../src/index';
+import { numberFormat, useForm } from '../src/index';
 import { Input } from './components/Input';
-import { NumberInput } from './components/NumberInput';
 
 interface Model {
   name: string;
@@ -54,6 +53,10 @@ function App(): JSX.Element {
       // eslint-disable-next-line no-console
       console.log(model);
     },
+    transformers: {
+      age: numberFormat(),
+      address: { streetNumber: numberFormat() },
+    },
     validations: {
       name: 'required',
       age: ['required', 'number'],
@@ -68,16 +71,16 @@ function App(): JSX.Element {
         <fieldset>
           <legend>Simple fields</legend>
           <Input label="Name: " {...fields.name} />
-          <NumberInput label="Age: " {...fields.age} />
+          <Input label="Age: " {...fields.age} />
         </fieldset>
         <fieldset>
           <legend>Array fields</legend>
-          {fields.emails.elements.map((field, index) => {
+          {fields.emails.elements.map((field) => {
             return (
               <Input
-                label="Email"
-                key={index}
                 {...field}
+                key={field.key}
+                label="Email"
                 onRemove={() => field.remove()}
               />
             );
@@ -90,18 +93,18 @@ function App(): JSX.Element {
         </fieldset>
         <fieldset>
           <legend>Images</legend>
-          {fields.images.elements.map((field, index) => {
+          {fields.images.elements.map((field) => {
             return (
-              <fieldset key={index}>
+              <fieldset key={field.key}>
                 <legend>Image:</legend>
                 <div>
                   <Input label="Image URL: " {...field.fields.url} />
-                  {field.fields.tags.elements.map((field2, index) => {
+                  {field.fields.tags.elements.map((field2) => {
                     return (
                       <Input
-                        key={index}
-                        label="Tag: "
                         {...field2}
+                        key={field2.key}
+                        label="Tag: "
                         onRemove={() => field2.remove()}
                       />
                     );
@@ -139,7 +142,7 @@ function App(): JSX.Element {
         <fieldset>
           <legend>Nested Fields</legend>
           <Input label="Street name: " {...fields.address.fields.streetName} />
-          <NumberInput
+          <Input
             label="Street number: "
             {...fields.address.fields.streetNumber}
           />
@@ -0,0 +1,157 @@
+import { Field } from './field';
+
+// The element of a field, which is focused if it is the first invalid one after a failed submit
+export type FieldElement = Pick<
+  HTMLElement,
+  'focus' | 'compareDocumentPosition'
+>;
+
+// Attributes for the element of a field, also for custom components
+export interface AriaAttributes {
+  id: string;
+  'aria-invalid': boolean;
+  'aria-describedby'?: string;
+  'aria-required': boolean;
+}
+
+export interface BindOptions {
+  // the kind of element, text inputs, textareas and selects of a single value need none
+  type?: 'checkbox' | 'radio' | 'file' | 'select-multiple';
+  // the value of a radio button, or of a checkbox adding it to the array of the field
+  value?: string;
+  // for file inputs, the field contains an array of files instead of a single one
+  multiple?: boolean;
+}
+
+// The properties of inputs, selects and textareas which are read on change
+export interface BindTarget {
+  value: string;
+  checked?: boolean;
+  files?: FileList | null;
+  options?: ArrayLike<{ value: string; selected: boolean }>;
+}
+
+export interface BoundProps extends AriaAttributes {
+  name: string;
+  value?: string | string[];
+  checked?: boolean;
+  multiple?: boolean;
+  required: boolean;
+  readOnly: boolean;
+  // checkboxes, radio buttons, selects and file inputs ignore `readOnly`, they are disabled instead
+  disabled?: boolean;
+  ref: (element: FieldElement | null) => void;
+  onChange: (event: { target: BindTarget }) => void;
+  onBlur: () => void;
+  onFocus: () => void;
+}
+
+// The errors are only announced once the field has been touched,
+// the element showing them needs the `errorId` of the field as its id.
+export function ariaAttributes(field: Field<unknown>): AriaAttributes {
+  const invalid = field.touched && field.errors.length > 0;
+  return {
+    id: field.id,
+    'aria-invalid': invalid,
+    'aria-describedby': invalid ? field.errorId : undefined,
+    'aria-required': field.required,
+  };
+}
+
+// Returns the props wiring a native element to the field
+export function bindField<T>(
+  field: Field<T>,
+  name: string,
+  { type, value: option, multiple }: BindOptions = {}
+): BoundProps {
+  const aria = ariaAttributes(field as Field<unknown>);
+  const props = {
+    ...aria,
+    // every radio button or checkbox of a group needs its own id
+    id:
+      option === undefined
+        ? aria.id
+        : `${aria.id}-${option.replace(/\s+/g, '-')}`,
+    name,
+    required: field.required,
+    readOnly: field.readOnly,
+    ref: field.registerElement,
+    onBlur: field.onBlur,
+    onFocus: field.onFocus,
+  };
+  // all elements but text inputs and textareas ignore `readOnly`
+  const disabled = field.readOnly;
+  switch (type) {
+    case 'checkbox':
+      if (option === undefined) {
+        return {
+          ...props,
+          disabled,
+          checked: !!field.value,
+          onChange: ({ target }) =>
+            field.onChange(!!target.checked as unknown as T),
+        };
+      }
+      // a native `required` would demand every checkbox of the group to be checked
+      return {
+        ...props,
+        required: false,
+        disabled,
+        value: option,
+        checked: toArray(field.value).includes(option),
+        onChange: ({ target }) => {
+          const values = toArray(field.value).filter((e) => e !== option);
+          field.onChange(
+            (target.checked ? [...values, option] : values) as unknown as T
+          );
+        },
+      };
+    case 'radio':
+      return {
+        ...props,
+        disabled,
+        value: option,
+        checked: option !== undefined && String(field.input) === option,
+        onChange: ({ target }) => {
+          if (target.checked && option !== undefined) {
+            field.onInputChange(option);
+          }
+        },
+      };
+    case 'file':
+      // file inputs can't be controlled
+      return {
+        ...props,
+        disabled,
+        multiple,
+        onChange: ({ target }) => {
+          const files = Array.from(target.files ?? []);
+          field.onChange((multiple ? files : files[0] ?? null) as unknown as T);
+        },
+      };
+    case 'select-multiple':
+      return {
+        ...props,
+        disabled,
+        multiple: true,
+        value: toArray(field.value).map(String),
+        onChange: ({ target }) => {
+          field.onChange(
+            Array.from(target.options ?? [])
+              .filter((e) => e.selected)
+              .map((e) => e.value) as unknown as T
+          );
+        },
+      };
+    default:
+      return {
+        ...props,
+        value: String(field.input ?? ''),
+        onChange: ({ target }) => field.onInputChange(target.value),
+      };
+  }
+}
+
+function toArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
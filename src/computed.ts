@@ -0,0 +1,22 @@
+import { Path, PathValue } from './path';
+import { isBlank } from './validation';
+import { isEqual } from './util';
+
+// A value derived from other fields of the model, e.g. a total or a slug
+export interface ComputedField<T, V> {
+  compute: (model: T) => V;
+  // the paths of the fields the value is computed from, without them it is computed on every change
+  deps?: Array<Path<T>>;
+  // the user can change the field, it is only filled while it is empty or contains the last computed value.
+  // Otherwise the field is read-only and any change is replaced by the computed value.
+  editable?: boolean;
+}
+
+export type ComputedFields<T> = {
+  [P in Path<T>]?: ComputedField<T, PathValue<T, P>>;
+};
+
+// Whether an editable field has been changed by the user, so it is no longer filled
+export function isOverridden(value: unknown, lastComputed: unknown): boolean {
+  return !isBlank(value) && !isEqual(value, lastComputed);
+}
@@ -0,0 +1,171 @@
+/**
+ * @jest-environment jsdom
+ */
+import { createElement, ReactElement } from 'react';
+import { render, unmountComponentAtNode } from 'react-dom';
+import { act } from 'react-dom/test-utils';
+import {
+  createFormHooks,
+  FormProvider,
+  useFieldByPath,
+  useFormContext,
+} from './context';
+import { Form } from './form';
+import { FormModel, useForm } from './hooks';
+
+interface Customer {
+  name: string;
+  address: { streetName: string };
+  tags: string[];
+}
+
+const customer: Customer = {
+  name: 'Freddy',
+  address: { streetName: 'Elm Street' },
+  tags: ['new'],
+};
+
+let container: HTMLElement;
+
+beforeEach(() => {
+  container = document.createElement('div');
+  document.body.appendChild(container);
+});
+
+afterEach(() => {
+  unmountComponentAtNode(container);
+  container.remove();
+});
+
+// Renders the section inside a FormProvider, the form itself doesn't rerender on changes
+function renderForm(section: () => ReactElement | null): FormModel<Customer> {
+  let model: FormModel<Customer> | undefined;
+  function CustomerForm(): ReactElement {
+    model = useForm({ model: customer, rerender: false });
+    return FormProvider({ form: model, children: createElement(section) });
+  }
+  act(() => {
+    render(createElement(CustomerForm), container);
+  });
+  return model as FormModel<Customer>;
+}
+
+describe(FormProvider, () => {
+  it('provides the form to nested components', () => {
+    let provided: Form<Customer> | undefined;
+    const form = renderForm(() => {
+      provided = useFormContext<Customer>();
+      return null;
+    });
+    expect(provided).toBe(form.form);
+  });
+
+  it('provides the same form after updates', () => {
+    const provided: Array<Form<Customer>> = [];
+    const form = renderForm(() => {
+      provided.push(useFormContext<Customer>());
+      useFieldByPath<Customer, 'name'>('name');
+      return null;
+    });
+    act(() => {
+      form.form.setValue('name', 'Jason');
+    });
+    expect(provided).toHaveLength(2);
+    expect(provided[1]).toBe(provided[0]);
+    expect(provided[1].model.name).toEqual('Jason');
+  });
+
+  it('throws outside of a provider', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    function Section(): null {
+      useFormContext();
+      return null;
+    }
+    expect(() => render(createElement(Section), container)).toThrow(
+      'useFormContext must be used within a FormProvider'
+    );
+    jest.restoreAllMocks();
+  });
+});
+
+describe(useFieldByPath, () => {
+  it('rerenders when the field changes', () => {
+    const values: string[] = [];
+    const form = renderForm(() => {
+      const streetName = useFieldByPath<Customer, 'address.streetName'>(
+        'address.streetName'
+      );
+      values.push(streetName?.value ?? '');
+      return null;
+    });
+    expect(values).toEqual(['Elm Street']);
+    act(() => {
+      form.form.setValue('address.streetName', 'Crystal Lake');
+    });
+    expect(values).toEqual(['Elm Street', 'Crystal Lake']);
+    act(() => {
+      form.form.setValue('name', 'Jason');
+    });
+    expect(values).toHaveLength(2);
+  });
+
+  it('returns undefined for missing elements', () => {
+    let tag: string | undefined = 'unknown';
+    renderForm(() => {
+      tag = useFieldByPath<Customer, 'tags.1'>('tags.1')?.value;
+      return null;
+    });
+    expect(tag).toEqual(undefined);
+  });
+
+  it('picks up added elements', () => {
+    const tags: Array<string | undefined> = [];
+    const form = renderForm(() => {
+      tags.push(useFieldByPath<Customer, 'tags.1'>('tags.1')?.value);
+      return null;
+    });
+    act(() => {
+      form.form.getField('tags')?.add('premium');
+    });
+    expect(tags).toEqual([undefined, 'premium']);
+    act(() => {
+      form.form.setValue('tags.1', 'vip');
+    });
+    expect(tags).toEqual([undefined, 'premium', 'vip']);
+  });
+
+  it('follows moved elements', () => {
+    const tags: Array<string | undefined> = [];
+    const form = renderForm(() => {
+      tags.push(useFieldByPath<Customer, 'tags.0'>('tags.0')?.value);
+      return null;
+    });
+    act(() => {
+      form.form.getField('tags')?.add('premium');
+    });
+    act(() => {
+      form.form.getField('tags')?.swap(0, 1);
+    });
+    expect(tags[tags.length - 1]).toEqual('premium');
+    act(() => {
+      form.form.setValue('tags.0', 'vip');
+    });
+    expect(tags[tags.length - 1]).toEqual('vip');
+    expect(form.form.model.tags).toEqual(['vip', 'new']);
+  });
+});
+
+describe(createFormHooks, () => {
+  it('types the hooks for the model', () => {
+    const hooks = createFormHooks<Customer>();
+    let provided: Form<Customer> | undefined;
+    let streetName: string | undefined;
+    const form = renderForm(() => {
+      provided = hooks.useFormContext();
+      streetName = hooks.useFieldByPath('address.streetName')?.value;
+      return null;
+    });
+    expect(provided).toBe(form.form);
+    expect(streetName).toEqual('Elm Street');
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  createContext,
+  createElement,
+  ReactElement,
+  ReactNode,
+  useContext,
+  useEffect,
+} from 'react';
+import { FieldOf } from './field';
+import { Form } from './form';
+import { FormModel } from './hooks';
+import { Path, PathValue } from './path';
+import { useForceUpdate } from './util';
+
+const FormContext = createContext<Form<unknown> | undefined>(undefined);
+
+// Provides the form to nested components, so it does not have to be passed down. The form
+// instance stays the same, so consumers only rerender when the state they subscribed to changes.
+export function FormProvider<T>({
+  form,
+  children,
+}: {
+  // the model returned by useForm or the form itself
+  form: FormModel<T> | Form<T>;
+  children?: ReactNode;
+}): ReactElement {
+  return createElement(
+    FormContext.Provider,
+    { value: (form instanceof Form ? form : form.form) as Form<unknown> },
+    children
+  );
+}
+
+// Returns the provided form, use useFormState or useField to rerender when its state changes
+export function useFormContext<T>(): Form<T> {
+  const form = useContext(FormContext);
+  if (!form) {
+    throw new Error('useFormContext must be used within a FormProvider');
+  }
+  return form as Form<T>;
+}
+
+// Returns the field at the given path (e.g. `address.streetName` or `images.0.url`) of the
+// provided form and rerenders whenever it changes. Undefined if there is no such element.
+// The path is resolved again on every update, so it follows added and moved elements.
+export function useFieldByPath<T, P extends Path<T> = Path<T>>(
+  path: P
+): FieldOf<PathValue<T, P>> | undefined {
+  const form = useFormContext<T>();
+  const forceUpdate = useForceUpdate();
+  const field = form.getField(path);
+  useEffect(() => {
+    let current = form.getField(path);
+    let unsubscribe = current?.subscribe(forceUpdate);
+    const unsubscribeForm = form.subscribe(() => {
+      const next = form.getField(path);
+      if (next !== current) {
+        current = next;
+        unsubscribe?.();
+        unsubscribe = next?.subscribe(forceUpdate);
+        forceUpdate();
+      }
+    });
+    return () => {
+      unsubscribe?.();
+      unsubscribeForm();
+    };
+  }, [form, path, forceUpdate]);
+  return field;
+}
+
+// The context hooks typed for a model, so paths are checked without passing them as type arguments:
+// `const { useFieldByPath } = createFormHooks<Customer>()`
+export function createFormHooks<T>(): {
+  useFormContext: () => Form<T>;
+  useFieldByPath: <P extends Path<T>>(
+    path: P
+  ) => FieldOf<PathValue<T, P>> | undefined;
+} {
+  return {
+    useFormContext: useFormContext as () => Form<T>,
+    useFieldByPath: useFieldByPath as <P extends Path<T>>(
+      path: P
+    ) => FieldOf<PathValue<T, P>> | undefined,
+  };
+}
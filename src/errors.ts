@@ -0,0 +1,64 @@
+// Errors keyed by the path of a field, e.g. `{ 'address.streetName': ['too long'] }`
+export type ErrorMap = Record<string, string | string[]>;
+
+// A subset of a JSON:API error document (https://jsonapi.org/format/#error-objects)
+export interface JsonApiErrorDocument {
+  errors: Array<{
+    source?: { pointer?: string; parameter?: string };
+    detail?: string;
+    title?: string;
+    code?: string;
+  }>;
+}
+
+// Throw this error inside of onSubmit to display the contained errors on the matching fields.
+export class SubmitError extends Error {
+  errors: Record<string, string[]>;
+
+  constructor(errors: ErrorMap | JsonApiErrorDocument, message?: string) {
+    super(message ?? 'submit-failed');
+    this.name = 'SubmitError';
+    this.errors = normalizeErrors(errors);
+  }
+}
+
+export function normalizeErrors(
+  errors: ErrorMap | JsonApiErrorDocument
+): Record<string, string[]> {
+  const result: Record<string, string[]> = {};
+  const append = (path: string, messages: string | string[]): void => {
+    result[path] = [
+      ...(result[path] ?? []),
+      ...([] as string[]).concat(messages),
+    ];
+  };
+  if (isJsonApiDocument(errors)) {
+    errors.errors.forEach((error) => {
+      const path = error.source?.pointer
+        ? pointerToPath(error.source.pointer)
+        : error.source?.parameter ?? '';
+      append(path, error.detail ?? error.title ?? error.code ?? 'invalid');
+    });
+  } else {
+    Object.entries(errors).forEach(([path, messages]) =>
+      append(path, messages)
+    );
+  }
+  return result;
+}
+
+function isJsonApiDocument(
+  errors: ErrorMap | JsonApiErrorDocument
+): errors is JsonApiErrorDocument {
+  return Array.isArray(errors.errors);
+}
+
+// `/data/attributes/address/streetName` becomes `address.streetName`
+function pointerToPath(pointer: string): string {
+  return pointer
+    .replace(/^\/data\/(attributes|relationships)/, '')
+    .split('/')
+    .filter(Boolean)
+    .map((e) => e.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .join('.');
+}
@@ -1,31 +1,85 @@
-import { copy, isEqual, uniq } from './util';
-import { MappedValidation, validateValue } from './validation';
+import { copy, deepCopy, isEqual, isPlainObject, overlaps, uniq } from './util';
+import {
+  ariaAttributes,
+  AriaAttributes,
+  bindField,
+  BindOptions,
+  BoundProps,
+  FieldElement,
+} from './bind';
+import { createPatch, PatchOperation, toPointer } from './patch';
+import {
+  isTransformer,
+  MappedTransformers,
+  toParseError,
+  Transformer,
+} from './transformers';
+import {
+  FieldValidation,
+  getDependencies,
+  isMappedValidation,
+  isRequired,
+  MappedValidation,
+  splitArrayValidation,
+  toValidationError,
+  ValidationDependencies,
+  ValidationError,
+  validateValue,
+} from './validation';
 
 /* This type is used to take a model, parse it an return a different type
 for each field. In this case, for each field of T, string | number you
 get back a FormField type */
 export type MappedFields<T> = {
-  [P in keyof Required<T>]: T[P] extends unknown[]
-    ? FieldSet<T[P][0]>
-    : T[P] extends Record<string, unknown> | undefined | null
-    ? NestedField<NonNullable<T[P]>>
-    : Field<T[P]>;
+  [P in keyof Required<T>]: FieldOf<T[P]>;
 };
 
+// The kind of field for a value
+export type FieldOf<T> = [T] extends [unknown[]]
+  ? FieldSet<T[0]>
+  : [T] extends [Record<string, unknown> | undefined | null]
+  ? NestedField<NonNullable<T>>
+  : Field<T>;
+
 export interface Field<T> {
+  // the id for the element of the field, unique within the document if every form has its own id
+  id: string;
+  // the id for the element showing the errors, referenced by `aria-describedby`
+  errorId: string;
   value: T;
+  // the value for an input, formatted by the transformer of the field (if there is one)
+  input: T | string;
   required: boolean;
+  // computed fields which can't be changed by the user
+  readOnly: boolean;
+  // the messages of the errors, or their codes if the form has no messages for them
   errors: string[];
+  // the errors including the parameters of the failed validations
+  errorDetails: ValidationError[];
   focused: boolean;
   touched: boolean;
   valid: boolean;
+  validating: boolean;
   dirty: boolean;
 
-  reset: () => void;
+  // resets to the original value, or to the given value which becomes the new original value
+  reset: (value?: T) => void;
+  // makes the current value the original value, so the field is no longer dirty
+  commit: () => void;
   touch: () => void;
   onChange: (value: T) => void;
+  // parses the input with the transformer of the field, invalid inputs are shown as errors
+  onInputChange: (input: string) => void;
   onBlur: () => void;
   onFocus: () => void;
+  setErrors: (errors: string[]) => void;
+  subscribe: (listener: () => void) => () => void;
+  // props for a native element, e.g. `<input {...field.bind()} />`
+  bind: (options?: BindOptions) => BoundProps;
+  // `id`, `aria-invalid`, `aria-describedby` and `aria-required` for custom components
+  ariaAttributes: () => AriaAttributes;
+  // pass it as `ref` of the element, so it can be focused when the field is invalid
+  registerElement: (element: FieldElement | null) => void;
 }
 
 interface NestedField<T> extends Field<T> {
@@ -33,75 +87,191 @@ interface NestedField<T> extends Field<T> {
 }
 
 interface FieldSetField<T> extends Field<T> {
+  // stays the same while the element is moved, use it as the key when rendering the element
+  key: string;
   remove: () => void;
 }
 
 interface FieldSet<T> extends Field<T[]> {
-  get elements(): Array<NestedFieldSetField<T>>;
+  get elements(): Array<FieldSetElement<T>>;
   add: (element: T) => void;
+  // the following methods keep the state (e.g. touched or errors) of the elements
+  insert: (index: number, element: T) => void;
+  prepend: (element: T) => void;
+  move: (from: number, to: number) => void;
+  swap: (a: number, b: number) => void;
+  // replaces all elements, like onChange
+  replace: (elements: T[]) => void;
+  clear: () => void;
 }
 
-type NestedFieldSetField<T> = NestedField<T> & FieldSetField<T>;
+// only elements containing objects have fields
+type FieldSetElement<T> = [T] extends [
+  Record<string, unknown> | undefined | null
+]
+  ? NestedField<NonNullable<T>> & FieldSetField<T>
+  : FieldSetField<T>;
+
+export type ValidationTrigger = 'change' | 'blur' | 'reset';
+
+// Shared by all fields of a form
+export interface FieldContext<Model> {
+  getModel: () => Model;
+  // called when an async validation finishes, without changing the value
+  onValidate: () => void;
+  // called before the field propagates a change or blur, so the form can decide if it should be validated
+  onTrigger: (
+    field: FieldImplementation<unknown, Model>,
+    trigger: ValidationTrigger
+  ) => void;
+  // only present if the form is validated by a schema, returns the errors of the field at the given path
+  getSchemaErrors?: (path: string[]) => string[];
+  // only present if elements of a FieldSet are identified by their value (`keyBy`)
+  keyOf?: (element: unknown) => string | undefined;
+  formatError: (error: ValidationError) => string;
+  // prefixes the ids of the fields
+  formId: string;
+  // whether the field at the path is computed from other fields and can't be changed
+  isReadOnly: (path: string[]) => boolean;
+  subscribe: (listener: () => void) => () => void;
+}
 
 export class FieldImplementation<T, Model>
   implements NestedField<T>, FieldSetField<T>
 {
   value: T;
-  required = false;
+  key = generateKey();
   focused = false;
   touched = false;
   errors: string[] = [];
+  errorDetails: ValidationError[] = [];
   elements: FieldImplementation<T, Model>[] = [];
 
   #fields: Partial<MappedFields<T>> = {};
   #originalValue: T;
   #validations: MappedValidation<T>;
-  #getModel: () => Model;
+  #transformers: MappedTransformers<T> | Transformer<T>;
+  // the raw input, kept while the user is typing so it is not formatted again
+  #input?: string;
+  #parseErrors: ValidationError[] = [];
+  #element?: FieldElement;
+  #context: FieldContext<Model>;
+  #parent?: FieldImplementation<unknown, Model>;
+  #name?: string;
+  // the keys of the original elements of a FieldSet, which are restored on reset
+  #originalKeys: string[] = [];
+  #dependencies: ValidationDependencies;
   #onUpdate: () => void;
   #onRemove?: () => void;
+  #validation?: AbortController;
+  #pendingValidation?: Promise<void>;
+  #validationErrors: ValidationError[] = [];
+  #validated = false;
+  #externalErrors: ValidationError[] = [];
+  // incremented whenever this field or one of its subfields changes
+  #version = 0;
 
+  declare id: string;
+  declare errorId: string;
+  declare input: T | string;
+  declare required: boolean;
+  declare readOnly: boolean;
   declare valid: boolean;
+  declare validating: boolean;
 
   constructor({
     value,
     validations,
+    transformers,
     onUpdate,
     onRemove,
-    getModel,
+    context,
+    parent,
+    name,
   }: {
     value: T;
     onUpdate: () => void;
     validations: MappedValidation<T>;
+    transformers?: MappedTransformers<T> | Transformer<T>;
     onRemove?: () => void;
-    getModel: () => Model;
+    context: FieldContext<Model>;
+    parent?: FieldImplementation<unknown, Model>;
+    // the key of this field within its parent, unless it is an element of a FieldSet
+    name?: string;
   }) {
     this.value = copy(value);
     this.#originalValue = value;
     this.#validations = validations;
-    this.#getModel = getModel;
-    if (
-      (Array.isArray(validations) &&
-        validations.some((e) => e === 'required')) ||
-      validations === 'required'
-    ) {
-      this.required = true;
-    }
+    this.#transformers = transformers ?? {};
+    this.#context = context;
+    this.#parent = parent;
+    this.#name = name;
+    this.#dependencies = getDependencies(this.ownValidations);
     this.createSubfields();
-    this.#onUpdate = onUpdate;
+    this.#originalKeys = this.elements.map((e) => e.key);
+    this.#onUpdate = () => {
+      this.#version++;
+      onUpdate();
+    };
     this.#onRemove = onRemove;
 
+    Object.defineProperty(this, 'id', {
+      enumerable: true,
+      get: () =>
+        [this.#context.formId, ...this.idPath].join('-').replace(/\s+/g, '-'),
+    });
+    Object.defineProperty(this, 'errorId', {
+      enumerable: true,
+      get: () => `${this.id}-errors`,
+    });
+    Object.defineProperty(this, 'input', {
+      enumerable: true,
+      get: () => {
+        if (this.#input !== undefined) {
+          return this.#input;
+        }
+        const transformer = this.transformer;
+        return transformer ? transformer.format(this.value) : this.value;
+      },
+    });
+    Object.defineProperty(this, 'required', {
+      enumerable: true,
+      get: () => {
+        return isRequired(this.ownValidations, {
+          value: this.value,
+          model: this.#context.getModel(),
+        });
+      },
+    });
+    Object.defineProperty(this, 'readOnly', {
+      enumerable: true,
+      get: () => this.#context.isReadOnly(this.path),
+    });
     Object.defineProperty(this, 'valid', {
       enumerable: true,
       get: () => {
         return this.errors.length === 0 && this.subfields.every((e) => e.valid);
       },
     });
+    Object.defineProperty(this, 'validating', {
+      enumerable: true,
+      get: () => {
+        return (
+          !!this.#pendingValidation || this.subfields.some((e) => e.validating)
+        );
+      },
+    });
   }
 
   get fields(): MappedFields<T> {
-    if (!this.value) {
+    if (this.value === undefined || this.value === null) {
       this.value = {} as T;
       this.#onUpdate();
+    } else if (typeof this.value !== 'object') {
+      throw new Error(
+        `The field ${this.path.join('.')} contains a ${typeof this
+          .value} and has no fields`
+      );
     }
     const handler = {
       get: (target: MappedFields<T>, key: string) => {
@@ -113,7 +283,10 @@ export class FieldImplementation<T, Model>
               this.#onUpdate();
             },
             validations: this.#validations[key] || {},
-            getModel: this.#getModel,
+            transformers: this.mappedTransformers[key],
+            context: this.#context,
+            parent: this as FieldImplementation<unknown, Model>,
+            name: key,
           });
           target[key] = field;
         }
@@ -124,22 +297,112 @@ export class FieldImplementation<T, Model>
   }
 
   add(element: T): void {
-    this.value = [
-      ...(this.value as unknown as unknown[]),
-      element,
-    ] as unknown as T;
-    this.elements.push(this.createFieldSetField(element));
-    this.#onUpdate();
+    this.insert(this.elements.length, element);
+  }
+
+  insert(index: number, element: T): void {
+    this.checkIndex(index, this.elements.length + 1);
+    this.updateElements((values, elements) => {
+      values.splice(index, 0, element);
+      elements.splice(index, 0, this.createFieldSetField(element));
+    });
+  }
+
+  prepend(element: T): void {
+    this.insert(0, element);
+  }
+
+  move(from: number, to: number): void {
+    this.checkIndex(from);
+    this.checkIndex(to);
+    this.updateElements((values, elements) => {
+      values.splice(to, 0, ...values.splice(from, 1));
+      elements.splice(to, 0, ...elements.splice(from, 1));
+    });
+  }
+
+  swap(a: number, b: number): void {
+    this.checkIndex(a);
+    this.checkIndex(b);
+    this.updateElements((values, elements) => {
+      [values[a], values[b]] = [values[b], values[a]];
+      [elements[a], elements[b]] = [elements[b], elements[a]];
+    });
+  }
+
+  replace(elements: T): void {
+    this.onChange(elements);
+  }
+
+  clear(): void {
+    this.updateElements((values, elements) => {
+      values.splice(0);
+      elements.splice(0);
+    });
   }
 
   remove(): void {
     this.#onRemove?.();
   }
 
-  reset(): void {
-    this.value = this.#originalValue;
+  reset(value?: T): void {
+    if (value !== undefined) {
+      this.rebase(value);
+      this.rebaseParents();
+    }
+    this.setInput(undefined);
+    this.value = copy(this.#originalValue);
     this.touched = false;
+    this.#externalErrors = [];
+    this.#validated = false;
+    this.clearValidationErrors();
+    if (Array.isArray(this.value)) {
+      this.createSubfields(this.#originalKeys);
+    }
     this.subfields.forEach((e) => e.reset());
+    this.trigger('reset');
+    this.#onUpdate();
+  }
+
+  // Makes the value the new original value, e.g. after the record has been loaded again.
+  // With `keepDirty` changed fields keep their value, only the other fields are reset.
+  reinitialize(value: T, keepDirty = false): void {
+    if (!keepDirty || !this.dirty) {
+      // unlike reset(value), an undefined value becomes the original value as well
+      this.rebase(value);
+      this.rebaseParents();
+      this.reset();
+      return;
+    }
+    const current: unknown = this.value;
+    if (Array.isArray(current)) {
+      // the elements keep their values, they are compared to the new elements at the same index
+      this.rebase(value);
+    } else {
+      this.#originalValue = value;
+    }
+    if (
+      current &&
+      typeof current === 'object' &&
+      !Array.isArray(current) &&
+      value &&
+      typeof value === 'object'
+    ) {
+      uniq([...Object.keys(this.#fields), ...Object.keys(value)]).forEach(
+        (key) => {
+          const field = this.fields[key] as unknown as FieldImplementation<
+            unknown,
+            Model
+          >;
+          field.reinitialize(value[key], keepDirty);
+        }
+      );
+    }
+  }
+
+  commit(): void {
+    this.rebase(deepCopy(this.value));
+    this.rebaseParents();
     this.#onUpdate();
   }
 
@@ -150,20 +413,31 @@ export class FieldImplementation<T, Model>
   }
 
   onChange = (value: T): void => {
-    this.value = value;
-    if (value && typeof value === 'object') {
-      if (Array.isArray(value)) {
-        this.elements = [];
-        this.createSubfields();
-      } else {
-        uniq([...Object.keys(this.#fields), ...Object.keys(value)]).forEach(
-          (key) => {
-            this.fields[key].onChange(value[key]);
-          }
-        );
-      }
+    this.setInput(undefined);
+    this.changeValue(value);
+  };
+
+  onInputChange = (input: string): void => {
+    const transformer = this.transformer;
+    if (!transformer) {
+      this.onChange(input as unknown as T);
+      return;
     }
-    this.#onUpdate();
+    let value: T;
+    try {
+      value = transformer.parse(input);
+    } catch (error: unknown) {
+      // the value is kept, the field is invalid until the input can be parsed
+      this.setInput(input, toParseError(error));
+      this.#onUpdate();
+      return;
+    }
+    this.setInput(input);
+    this.changeValue(value);
+  };
+
+  registerElement = (element: FieldElement | null): void => {
+    this.#element = element ?? undefined;
   };
 
   onFocus: () => void = () => {
@@ -174,49 +448,510 @@ export class FieldImplementation<T, Model>
   onBlur: () => void = () => {
     this.focused = false;
     this.touched = true;
+    if (!this.#parseErrors.length) {
+      // shows the formatted value
+      this.#input = undefined;
+    }
+    this.trigger('blur');
     this.#onUpdate();
   };
 
+  // Validates this field and all of its subfields
   validate(): void {
-    const validations = this.#validations;
+    this.runValidations();
     if (this.isNestedValidation) {
-      Object.keys(validations).forEach((key) => {
-        this.fields[key].validate();
-      });
-    } else {
-      this.errors = validateValue(
-        this.value,
-        this.#getModel(),
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        validations as any
+      // make sure all fields with validations exist
+      Object.keys(this.#validations).forEach((key) => this.fields[key]);
+    }
+    this.subfields.forEach((e) => e.validate());
+  }
+
+  // Validates the parents of this field, as their value changed as well
+  validateParents(): void {
+    for (let parent = this.#parent; parent; parent = parent.#parent) {
+      parent.runValidations();
+    }
+  }
+
+  // Validates all fields depending on the given (changed) fields, which have been validated
+  // before. `shouldValidate` decides if the validation mode allows validating a field on change.
+  // Only changes of the fields at `touchPaths` (e.g. not resets) touch the fields depending on them.
+  validateDependents(
+    fields: Set<FieldImplementation<unknown, Model>>,
+    shouldValidate: (field: FieldImplementation<unknown, Model>) => boolean,
+    touchPaths: string[][] = [...fields].map((e) => e.path),
+    paths: string[][] = [...fields].map((e) => e.path)
+  ): void {
+    const field = this as FieldImplementation<unknown, Model>;
+    const dependencies = this.#dependencies;
+    // a schema validates the whole model at once
+    const dependsOnModel =
+      dependencies.model || !!this.#context.getSchemaErrors;
+    if (!fields.has(field)) {
+      const dependsOnPaths = dependencies.paths.some((dependency) =>
+        paths.some((path) => overlaps(path, dependency))
       );
+      const touch =
+        dependencies.touch &&
+        dependencies.paths.some((dependency) =>
+          touchPaths.some((path) => overlaps(path, dependency))
+        );
+      if (touch) {
+        this.touched = true;
+      }
+      if (
+        ((dependsOnModel && this.#validated) ||
+          (dependsOnPaths && (this.#validated || touch))) &&
+        shouldValidate(field)
+      ) {
+        this.runValidations();
+      }
+    }
+    this.subfields.forEach((e) =>
+      e.validateDependents(fields, shouldValidate, touchPaths, paths)
+    );
+  }
+
+  // The keys leading from the form to this field, e.g. ['images', '0', 'url']
+  get path(): string[] {
+    const parent = this.#parent;
+    if (!parent) {
+      return [];
     }
-    this.elements.forEach((e) => e.validate());
+    const key =
+      this.#name ??
+      String(
+        parent.elements.indexOf(this as FieldImplementation<unknown, Model>)
+      );
+    return [...parent.path, key];
+  }
+
+  // Errors set from the outside (e.g. returned by the server) are shown
+  // in addition to the validation errors until the value is changed.
+  setErrors(errors: string[]): void {
+    this.#externalErrors = errors.map(toValidationError);
+    this.updateErrors();
+  }
+
+  // Calls the listener whenever the state of this field or one of its subfields changed,
+  // returns a function to unsubscribe
+  subscribe(listener: () => void): () => void {
+    let state = this.state;
+    return this.#context.subscribe(() => {
+      const next = this.state;
+      if (!isEqual(state, next)) {
+        state = next;
+        listener();
+      }
+    });
+  }
+
+  bind(options?: BindOptions): BoundProps {
+    return bindField(this, this.path.join('.'), options);
+  }
+
+  ariaAttributes(): AriaAttributes {
+    return ariaAttributes(this as FieldImplementation<unknown, Model>);
+  }
+
+  // Formats the errors of this field and its subfields again, e.g. after the messages changed
+  updateMessages(): void {
+    this.updateErrors();
+    this.subfields.forEach((e) => e.updateMessages());
+  }
+
+  clearErrors(): void {
+    this.clearExternalErrors();
+    this.subfields.forEach((e) => e.clearErrors());
+  }
+
+  // Returns the field at the given path, e.g. ['images', '0', 'url'], undefined if an element or
+  // object on the way is missing. With `create` missing objects are created instead, e.g. to change the field.
+  fieldAt(
+    path: string[],
+    create = false
+  ): FieldImplementation<unknown, Model> | undefined {
+    if (path.length === 0) {
+      return this as FieldImplementation<unknown, Model>;
+    }
+    const [key, ...rest] = path;
+    const value: unknown = this.value;
+    if (Array.isArray(value)) {
+      return this.elements[Number(key)]?.fieldAt(rest, create);
+    }
+    const missing = value === undefined || value === null;
+    if ((missing && !create) || (!missing && typeof value !== 'object')) {
+      return undefined;
+    }
+    const field = this.fields[key] as unknown as FieldImplementation<
+      unknown,
+      Model
+    >;
+    return field.fieldAt(rest, create);
+  }
+
+  // Like fieldAt, but instead of missing fields it returns the closest existing field. With
+  // `onlyExisting` no fields are created for keys which are neither part of the value nor validated.
+  closestFieldAt(
+    path: string[],
+    onlyExisting = false
+  ): FieldImplementation<unknown, Model> {
+    const [key, ...rest] = path;
+    const value: unknown = this.value;
+    if (key === undefined) {
+      return this as FieldImplementation<unknown, Model>;
+    }
+    if (Array.isArray(value)) {
+      return (
+        this.elements[Number(key)]?.closestFieldAt(rest, onlyExisting) ?? this
+      );
+    }
+    if (
+      value &&
+      typeof value === 'object' &&
+      (!onlyExisting ||
+        key in value ||
+        key in this.#fields ||
+        (this.isNestedValidation && key in this.#validations))
+    ) {
+      const field = this.fields[key] as unknown as FieldImplementation<
+        unknown,
+        Model
+      >;
+      return field.closestFieldAt(rest, onlyExisting);
+    }
+    return this as FieldImplementation<unknown, Model>;
+  }
+
+  // Resolves as soon as all async validations of this field and its subfields are done.
+  async waitForValidation(): Promise<void> {
+    while (this.#pendingValidation) {
+      await this.#pendingValidation;
+    }
+    await Promise.all(this.subfields.map((e) => e.waitForValidation()));
+  }
+
+  // This field and its subfields which have errors, in the order of the model
+  invalidFields(): Array<FieldImplementation<unknown, Model>> {
+    return [
+      ...(this.errors.length
+        ? [this as FieldImplementation<unknown, Model>]
+        : []),
+      ...this.subfields.flatMap((e) => e.invalidFields()),
+    ];
+  }
+
+  // The registered element of this field
+  get element(): FieldElement | undefined {
+    return this.#element;
+  }
+
+  // The paths of this field and its subfields which have been touched
+  touchedPaths(): string[][] {
+    return [
+      ...(this.touched ? [this.path] : []),
+      ...this.subfields.flatMap((e) => e.touchedPaths()),
+    ];
+  }
+
+  // The JSON Patch operations turning the original value (given by the parent) into the current
+  // value. Elements of FieldSets are identified by their keys, so moving them results in `move` operations.
+  patch(
+    original: unknown = this.#originalValue,
+    path: string[] = []
+  ): PatchOperation[] {
+    const value: unknown = this.value;
+    if (isEqual(original, value)) {
+      return [];
+    }
+    if (
+      Array.isArray(original) &&
+      Array.isArray(value) &&
+      // the original keys only belong to the original value of this field
+      isEqual(original, this.#originalValue)
+    ) {
+      return this.patchElements(original, path);
+    }
+    if (isPlainObject(original) && isPlainObject(value)) {
+      return uniq([...Object.keys(original), ...Object.keys(value)]).flatMap(
+        (key) => {
+          const field = this.#fields[key] as
+            | FieldImplementation<unknown, Model>
+            | undefined;
+          return field
+            ? field.patch(original[key], [...path, key])
+            : createPatch(original[key], value[key], [...path, key]);
+        }
+      );
+    }
+    return createPatch(original, value, path);
   }
 
   get dirty(): boolean {
     return !isEqual(this.value, this.#originalValue);
   }
 
+  private get state(): unknown[] {
+    return [this.#version, this.valid, this.validating, this.required];
+  }
+
+  // Like the path, but with the keys of the elements instead of their indexes, so the ids stay the same
+  // while the elements are moved
+  private get idPath(): string[] {
+    const parent = this.#parent;
+    return parent ? [...parent.idPath, this.#name ?? this.key] : [];
+  }
+
   private get subfields(): Array<FieldImplementation<unknown, Model>> {
     return this.elements.concat(Object.values(this.#fields)) as Array<
       FieldImplementation<unknown, Model>
     >;
   }
 
-  private get isNestedValidation(): boolean {
-    const validations = this.#validations;
-    return (
-      typeof validations === 'object' &&
-      !Array.isArray(validations) &&
-      !(validations instanceof RegExp)
+  // Removes, adds and moves the elements (in this order) to match the keys of the current elements
+  private patchElements(original: unknown[], path: string[]): PatchOperation[] {
+    const keys = this.elements.map((e) => e.key);
+    const originalKeys = [...this.#originalKeys];
+    const originals = [...original];
+    const operations: PatchOperation[] = [];
+    // removed from the end, so the indices of the other elements stay the same
+    for (let index = originalKeys.length - 1; index >= 0; index--) {
+      if (!keys.includes(originalKeys[index])) {
+        operations.push({
+          op: 'remove',
+          path: toPointer([...path, String(index)]),
+        });
+        originalKeys.splice(index, 1);
+        originals.splice(index, 1);
+      }
+    }
+    this.elements.forEach((element, index) => {
+      const elementPath = [...path, String(index)];
+      // the elements before this one are in place already
+      const from = originalKeys.indexOf(element.key, index);
+      if (from === -1) {
+        operations.push({
+          op: 'add',
+          path: toPointer(elementPath),
+          value: deepCopy(element.value),
+        });
+        originalKeys.splice(index, 0, element.key);
+        originals.splice(index, 0, element.value);
+        return;
+      }
+      if (from !== index) {
+        operations.push({
+          op: 'move',
+          from: toPointer([...path, String(from)]),
+          path: toPointer(elementPath),
+        });
+        originalKeys.splice(index, 0, ...originalKeys.splice(from, 1));
+        originals.splice(index, 0, ...originals.splice(from, 1));
+      }
+      operations.push(...element.patch(originals[index], elementPath));
+    });
+    return operations;
+  }
+
+  // Changes the original values of this field and its subfields, without changing their values
+  private rebase(value: T): void {
+    this.#originalValue = value;
+    if (Array.isArray(value)) {
+      this.elements.forEach((e, index) => e.rebase(value[index]));
+      // the elements at the same index become the original elements
+      const keyOf = this.#context.keyOf;
+      this.#originalKeys = value.map(
+        (e, index) => keyOf?.(e) ?? this.elements[index]?.key ?? generateKey()
+      );
+    } else {
+      Object.entries(this.#fields).forEach(([key, field]) => {
+        (field as FieldImplementation<unknown, Model>).rebase(value?.[key]);
+      });
+    }
+  }
+
+  // Puts the original value into the original values of the parents, so they are
+  // only dirty if other fields have been changed
+  private rebaseParents(): void {
+    const parent = this.#parent;
+    if (!parent) {
+      return;
+    }
+    const original: unknown = parent.#originalValue;
+    if (Array.isArray(original)) {
+      const index = parent.elements.indexOf(
+        this as FieldImplementation<unknown, Model>
+      );
+      // added elements are not part of the original value
+      if (index < original.length) {
+        const elements = [...original];
+        elements[index] = this.#originalValue;
+        parent.#originalValue = elements;
+      }
+    } else if (this.#name !== undefined) {
+      parent.#originalValue = {
+        ...(original as object),
+        [this.#name]: this.#originalValue,
+      };
+    }
+    parent.rebaseParents();
+  }
+
+  private trigger(trigger: ValidationTrigger): void {
+    this.#context.onTrigger(
+      this as FieldImplementation<unknown, Model>,
+      trigger
     );
   }
 
-  private createSubfields(): void {
+  // Runs the validations of this field only, without its subfields
+  private runValidations(): void {
+    this.#validated = true;
+    const schemaErrors = (this.#context.getSchemaErrors?.(this.path) ?? []).map(
+      toValidationError
+    );
+    if (this.isNestedValidation) {
+      this.setValidationErrors(schemaErrors);
+      return;
+    }
+    this.#validation?.abort();
+    const validation = new AbortController();
+    this.#validation = validation;
+    const result = validateValue(
+      this.value,
+      this.#context.getModel(),
+      this.ownValidations as FieldValidation<T, Model>,
+      validation.signal
+    );
+    if (result instanceof Promise) {
+      this.#pendingValidation = result
+        .catch(() => [{ code: 'validation-failed' }])
+        .then((errors) => {
+          // a newer validation has been started in the meantime
+          if (this.#validation !== validation) return;
+          this.setValidationErrors([...errors, ...schemaErrors]);
+          this.#pendingValidation = undefined;
+          this.#context.onValidate();
+        });
+    } else {
+      this.setValidationErrors([...result, ...schemaErrors]);
+      this.#pendingValidation = undefined;
+    }
+  }
+
+  // Aborts a pending validation as well, so its result doesn't replace the cleared errors
+  private clearValidationErrors(): void {
+    this.#validation?.abort();
+    this.#validation = undefined;
+    this.#pendingValidation = undefined;
+    this.setValidationErrors([]);
+  }
+
+  private setValidationErrors(errors: ValidationError[]): void {
+    this.#validationErrors = errors;
+    this.updateErrors();
+  }
+
+  private updateErrors(): void {
+    this.errorDetails = [
+      ...this.#parseErrors,
+      ...this.#validationErrors,
+      ...this.#externalErrors,
+    ];
+    this.errors = this.errorDetails.map(this.#context.formatError);
+    this.#version++;
+  }
+
+  private changeValue(value: T): void {
+    this.value = value;
+    this.clearExternalErrors();
+    if (value && typeof value === 'object') {
+      if (Array.isArray(value)) {
+        // the elements keep the keys of the previous elements at the same index
+        this.createSubfields(this.elements.map((e) => e.key));
+      } else {
+        uniq([...Object.keys(this.#fields), ...Object.keys(value)]).forEach(
+          (key) => {
+            this.fields[key].onChange(value[key]);
+          }
+        );
+      }
+    }
+    this.trigger('change');
+    this.#onUpdate();
+  }
+
+  private setInput(input: string | undefined, error?: ValidationError): void {
+    this.#input = input;
+    if (error || this.#parseErrors.length) {
+      this.#parseErrors = error ? [error] : [];
+      this.updateErrors();
+    }
+  }
+
+  private clearExternalErrors(): void {
+    if (this.#externalErrors.length) {
+      this.setErrors([]);
+    }
+  }
+
+  // Changes the values and elements of a FieldSet alike, so the elements keep their state
+  private updateElements(
+    update: (
+      values: unknown[],
+      elements: Array<FieldImplementation<T, Model>>
+    ) => void
+  ): void {
+    this.clearExternalErrors();
+    const values = [...(this.value as unknown as unknown[])];
+    update(values, this.elements);
+    this.value = values as unknown as T;
+    this.trigger('change');
+    this.#onUpdate();
+  }
+
+  // Throws before the elements are changed, so the values and the elements stay in sync
+  private checkIndex(index: number, length = this.elements.length): void {
+    if (!Number.isInteger(index) || index < 0 || index >= length) {
+      throw new RangeError(
+        `The index ${index} is out of range for ${this.path.join('.')}`
+      );
+    }
+  }
+
+  private get transformer(): Transformer<T> | undefined {
+    return isTransformer<T>(this.#transformers)
+      ? this.#transformers
+      : undefined;
+  }
+
+  // The transformers of the subfields, or of the fields of the elements if this is a FieldSet
+  private get mappedTransformers(): MappedTransformers<T> {
+    return isTransformer<T>(this.#transformers) ? {} : this.#transformers;
+  }
+
+  private get isNestedValidation(): boolean {
+    return isMappedValidation(this.ownValidations);
+  }
+
+  // The validations of this field, without those of the elements if it is a FieldSet
+  private get ownValidations():
+    | FieldValidation<T, Model>
+    | MappedValidation<T> {
+    const validations = this.#validations as
+      | FieldValidation<T, Model>
+      | MappedValidation<T>;
+    return Array.isArray(this.value)
+      ? splitArrayValidation(validations).array
+      : validations;
+  }
+
+  private createSubfields(keys: string[] = []): void {
     const value = this.value;
     if (Array.isArray(value)) {
-      this.elements = value.map((e) => this.createFieldSetField(e));
+      this.elements = value.map((e, index) =>
+        this.createFieldSetField(e, keys[index])
+      );
     } else {
       // make sure as many fields as possible are initialized
       if (this.isNestedValidation) {
@@ -228,7 +963,10 @@ export class FieldImplementation<T, Model>
     }
   }
 
-  private createFieldSetField(value: T): FieldImplementation<T, Model> {
+  private createFieldSetField(
+    value: T,
+    key?: string
+  ): FieldImplementation<T, Model> {
     const field = new FieldImplementation({
       value,
       onUpdate: () => {
@@ -236,15 +974,29 @@ export class FieldImplementation<T, Model>
         this.value[index] = field.value;
         this.#onUpdate();
       },
-      validations: this.#validations,
+      validations: splitArrayValidation(this.#validations)
+        .elements as MappedValidation<T>,
+      transformers: this.mappedTransformers as MappedTransformers<T>,
       onRemove: () => {
-        const index = this.elements.indexOf(field);
-        (this.value as unknown as unknown[]).splice(index, 1);
-        this.elements.splice(index, 1);
-        this.#onUpdate();
+        this.updateElements((values, elements) => {
+          const index = elements.indexOf(field);
+          values.splice(index, 1);
+          elements.splice(index, 1);
+        });
       },
-      getModel: this.#getModel,
+      context: this.#context,
+      parent: this as FieldImplementation<unknown, Model>,
     });
+    const keyOf = this.#context.keyOf;
+    // keys of other values are not reused if the elements are identified by their value
+    field.key = (keyOf ? keyOf(value) : key) ?? field.key;
     return field;
   }
 }
+
+let lastKey = 0;
+
+function generateKey(): string {
+  lastKey += 1;
+  return `field-${lastKey}`;
+}
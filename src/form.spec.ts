@@ -1,5 +1,36 @@
-import { Form } from './form';
-import { MappedValidation } from './validation';
+import { ChangesMode, Form, ReValidationMode, ValidationMode } from './form';
+import { SubmitError } from './errors';
+import { ErrorMessages, MessageOptions } from './messages';
+import { FieldElement } from './bind';
+import { HistoryOptions } from './history';
+import { memoryStorage, PersistOptions } from './persistence';
+import { jsonSchemaResolver, Resolver } from './schema';
+import {
+  dateFormat,
+  decimalFormat,
+  listFormat,
+  MappedTransformers,
+  numberFormat,
+  ParseError,
+} from './transformers';
+import {
+  matchesField,
+  max,
+  maxItems,
+  maxLength,
+  min,
+  minItems,
+  minLength,
+  oneOf,
+  required,
+  when,
+} from './validators';
+import {
+  debounceValidation,
+  dependsOn,
+  each,
+  MappedValidation,
+} from './validation';
 
 type VoidFunction = () => void;
 
@@ -51,13 +82,33 @@ const defaultValue: Model = {
 function createForm({
   validations,
   value,
+  mode,
+  reValidateMode,
   onSubmit,
   onSubmitError,
+  messages,
+  translate,
+  keyBy,
+  history,
+  persist,
+  resetOnSubmit,
+  changesMode,
+  transformers,
 }: {
   value?: Partial<Model>;
-  validations?: Partial<MappedValidation<Model>>;
-  onSubmit?: (form: Form<Model>) => Promise<void> | void;
+  validations?: Partial<MappedValidation<Model>> | Resolver<Model>;
+  mode?: ValidationMode;
+  reValidateMode?: ReValidationMode;
+  onSubmit?: (form: Form<Model>) => Promise<void | Model> | void;
   onSubmitError?: (error: Error) => void;
+  messages?: ErrorMessages;
+  translate?: MessageOptions['translate'];
+  keyBy?: string;
+  history?: boolean | HistoryOptions;
+  persist?: PersistOptions;
+  resetOnSubmit?: boolean;
+  changesMode?: ChangesMode;
+  transformers?: MappedTransformers<Model>;
 } = {}): Form<Model> {
   return new Form<Model>({
     model: { ...defaultValue, ...(value || {}) },
@@ -65,9 +116,23 @@ function createForm({
     onSubmit: onSubmit ?? tracker.onSubmit,
     onSubmitError,
     validations,
+    mode,
+    reValidateMode,
+    messages,
+    translate,
+    keyBy,
+    history,
+    persist,
+    resetOnSubmit,
+    changesMode,
+    transformers,
   });
 }
 
+function wait(ms = 0): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 describe(Form, () => {
   beforeEach(() => tracker.reset());
 
@@ -173,6 +238,524 @@ describe(Form, () => {
       form.fields.name.onBlur();
       expect(form.fields.name.touched).toEqual(true);
     });
+
+    it('returns the changed properties of nested objects', () => {
+      const form = createForm({
+        changesMode: 'deep',
+        value: {
+          address: { streetName: 'Elm Street', streetNumber: 13 },
+          hobbies: [{ name: 'chess' }, { name: 'golf' }],
+        },
+      });
+      form.fields.address.fields.streetName.onChange('Crystal Lake');
+      form.fields.hobbies.elements[1].fields.name.onChange('tennis');
+      expect(form.changes).toEqual({
+        address: { streetName: 'Crystal Lake' },
+        hobbies: [{ name: 'chess' }, { name: 'tennis' }],
+      });
+    });
+  });
+
+  describe('transformers', () => {
+    it('formats and parses the input', () => {
+      const form = createForm({
+        transformers: { age: numberFormat(), emails: listFormat() },
+        value: { emails: ['a@example.com', 'b@example.com'] },
+      });
+      expect(form.fields.age.input).toEqual('18');
+      expect(form.fields.emails.input).toEqual('a@example.com, b@example.com');
+      form.fields.age.onInputChange('21');
+      form.fields.emails.onInputChange('c@example.com,, d@example.com ');
+      expect(form.model.age).toEqual(21);
+      expect(form.model.emails).toEqual(['c@example.com', 'd@example.com']);
+      expect(form.fields.emails.elements.length).toEqual(2);
+      form.fields.age.onChange(30);
+      expect(form.fields.age.input).toEqual('30');
+    });
+
+    it('shows parse failures as errors', () => {
+      const form = createForm({
+        transformers: { age: numberFormat() },
+        messages: { 'invalid-number': 'Not a number' },
+      });
+      form.fields.age.onInputChange('18 years');
+      expect(form.model.age).toEqual(18);
+      expect(form.fields.age.input).toEqual('18 years');
+      expect(form.fields.age.errors).toEqual(['Not a number']);
+      expect(form.valid).toEqual(false);
+      form.fields.age.onInputChange('19');
+      expect(form.fields.age.errors).toEqual([]);
+      expect(form.model.age).toEqual(19);
+      form.fields.age.onInputChange('');
+      expect(form.model.age).toBeUndefined();
+    });
+
+    it('keeps the input until the field is blurred', () => {
+      const form = createForm({
+        transformers: {
+          address: {
+            streetNumber: decimalFormat({
+              decimalSeparator: ',',
+              thousandsSeparator: '.',
+              fractionDigits: 2,
+            }),
+          },
+        },
+      });
+      const field = form.fields.address.fields.streetNumber;
+      field.onInputChange('1234,5');
+      expect(field.value).toEqual(1234.5);
+      expect(field.input).toEqual('1234,5');
+      field.onBlur();
+      expect(field.input).toEqual('1.234,50');
+    });
+
+    it('transforms the fields of elements', () => {
+      const form = createForm({
+        transformers: {
+          hobbies: {
+            name: {
+              format: (value) => (value ?? '').toUpperCase(),
+              parse: (input) => input.toLowerCase(),
+            },
+          },
+        },
+        value: { hobbies: [{ name: 'chess' }] },
+      });
+      form.fields.hobbies.add({ name: 'go' });
+      expect(form.fields.hobbies.elements[1].fields.name.input).toEqual('GO');
+      form.fields.hobbies.elements[0].fields.name.onInputChange('GOLF');
+      expect(form.model.hobbies).toEqual([{ name: 'golf' }, { name: 'go' }]);
+    });
+
+    it('uses the message of other errors', () => {
+      const form = createForm({
+        transformers: {
+          name: {
+            format: (value) => value ?? '',
+            parse: (input) => {
+              if (input.length > 3) throw new Error('Too long');
+              return input;
+            },
+          },
+          description: {
+            format: (value) => value ?? '',
+            parse: () => {
+              throw new ParseError('invalid-description', { min: 1 });
+            },
+          },
+        },
+      });
+      form.fields.name.onInputChange('Freddy');
+      form.fields.description.onInputChange('');
+      expect(form.fields.name.errors).toEqual(['Too long']);
+      expect(form.fields.description.errorDetails).toEqual([
+        { code: 'invalid-description', params: { min: 1 } },
+      ]);
+    });
+
+    it('parses dates', () => {
+      const { format, parse } = dateFormat();
+      expect(parse('2021-02-28')).toEqual(new Date(2021, 1, 28));
+      expect(format(new Date(2021, 1, 28))).toEqual('2021-02-28');
+      expect(() => parse('2021-02-30')).toThrow(ParseError);
+      expect(parse('')).toBeUndefined();
+    });
+  });
+
+  describe('binding', () => {
+    interface Settings {
+      title: string;
+      price?: number;
+      public: boolean;
+      tags: string[];
+      color: string;
+      files: File[];
+    }
+    const createSettings = (): Form<Settings> =>
+      new Form<Settings>({
+        model: {
+          title: '',
+          public: false,
+          tags: [],
+          color: 'red',
+          files: [],
+        },
+        validations: { title: 'required' },
+        transformers: { price: numberFormat() },
+        id: 'settings',
+      });
+
+    it('binds text inputs', () => {
+      const form = createSettings();
+      const props = form.register('title');
+      expect(props).toMatchObject({
+        name: 'title',
+        value: '',
+        required: true,
+        'aria-invalid': false,
+        'aria-describedby': undefined,
+      });
+      props.onChange({ target: { value: 'News' } });
+      expect(form.model.title).toEqual('News');
+      form.fields.price.bind().onChange({ target: { value: '12' } });
+      expect(form.model.price).toEqual(12);
+      expect(form.fields.price.bind().value).toEqual('12');
+    });
+
+    it('marks invalid fields once they are touched', () => {
+      const form = createSettings();
+      form.register('title').onBlur();
+      expect(form.register('title')).toMatchObject({
+        'aria-invalid': true,
+        'aria-describedby': 'settings-title-errors',
+      });
+    });
+
+    it('binds checkboxes', () => {
+      const form = createSettings();
+      const checkbox = form.register('public', { type: 'checkbox' });
+      expect(checkbox.checked).toEqual(false);
+      checkbox.onChange({ target: { value: 'on', checked: true } });
+      expect(form.model.public).toEqual(true);
+
+      const news = { type: 'checkbox', value: 'news' } as const;
+      form.register('tags', news).onChange({
+        target: { value: 'news', checked: true },
+      });
+      form.register('tags', { type: 'checkbox', value: 'sports' }).onChange({
+        target: { value: 'sports', checked: true },
+      });
+      expect(form.register('tags', news).checked).toEqual(true);
+      form.register('tags', news).onChange({
+        target: { value: 'news', checked: false },
+      });
+      expect(form.model.tags).toEqual(['sports']);
+    });
+
+    it('leaves checkbox groups to aria-required', () => {
+      const form = new Form<Settings>({
+        model: { title: '', public: false, tags: [], color: 'red', files: [] },
+        validations: { tags: ['required', minItems(1)] },
+      });
+      expect(
+        form.register('tags', { type: 'checkbox', value: 'news' })
+      ).toMatchObject({ required: false, 'aria-required': true });
+      expect(
+        form.register('tags', { type: 'select-multiple' }).required
+      ).toEqual(true);
+    });
+
+    it('disables read-only elements which ignore readOnly', () => {
+      const form = new Form<Settings>({
+        model: { title: '', public: false, tags: [], color: 'red', files: [] },
+        computed: {
+          public: { compute: ({ title }) => !!title, deps: ['title'] },
+          color: { compute: () => 'red', deps: [] },
+        },
+      });
+      expect(form.register('title').disabled).toBeUndefined();
+      expect(form.register('public', { type: 'checkbox' })).toMatchObject({
+        readOnly: true,
+        disabled: true,
+      });
+      expect(
+        form.register('color', { type: 'radio', value: 'blue' }).disabled
+      ).toEqual(true);
+      expect(
+        form.register('tags', { type: 'select-multiple' }).disabled
+      ).toEqual(false);
+    });
+
+    it('binds radio buttons', () => {
+      const form = createSettings();
+      const blue = form.register('color', { type: 'radio', value: 'blue' });
+      expect(blue.checked).toEqual(false);
+      expect(
+        form.register('color', { type: 'radio', value: 'red' })
+      ).toMatchObject({ checked: true, value: 'red' });
+      expect(blue.id).toEqual('settings-color-blue');
+      blue.onChange({ target: { value: 'blue', checked: true } });
+      expect(form.model.color).toEqual('blue');
+    });
+
+    it('binds selects of several values', () => {
+      const form = createSettings();
+      const props = form.register('tags', { type: 'select-multiple' });
+      expect(props.multiple).toEqual(true);
+      props.onChange({
+        target: {
+          value: 'news',
+          options: [
+            { value: 'news', selected: true },
+            { value: 'sports', selected: false },
+            { value: 'weather', selected: true },
+          ],
+        },
+      });
+      expect(form.model.tags).toEqual(['news', 'weather']);
+      expect(form.register('tags', { type: 'select-multiple' }).value).toEqual([
+        'news',
+        'weather',
+      ]);
+    });
+
+    it('binds file inputs', () => {
+      const form = createSettings();
+      const file = { name: 'image.png' } as File;
+      const props = form.register('files', { type: 'file', multiple: true });
+      expect(props.value).toBeUndefined();
+      props.onChange({
+        target: { value: '', files: [file] as unknown as FileList },
+      });
+      expect(form.model.files).toEqual([file]);
+    });
+  });
+
+  describe('accessibility', () => {
+    const element = (
+      position: number
+    ): FieldElement & { focus: jest.Mock; position: number } => ({
+      position,
+      focus: jest.fn(),
+      compareDocumentPosition: (other) =>
+        (other as unknown as { position: number }).position > position ? 4 : 2,
+    });
+
+    it('creates ids for the fields', () => {
+      const form = new Form({ model: defaultValue, id: 'profile' });
+      expect(form.fields.address.fields.streetName.id).toEqual(
+        'profile-address-streetName'
+      );
+      expect(form.fields.name.errorId).toEqual('profile-name-errors');
+      expect(createForm().fields.name.id).toMatch(/^form-\d+-name$/);
+    });
+
+    it('keeps the ids of moved elements', () => {
+      const form = new Form({
+        model: {
+          ...defaultValue,
+          hobbies: [{ name: 'chess' }, { name: 'go' }],
+        },
+        id: 'profile',
+        keyBy: 'name',
+      });
+      const hobbies = form.fields.hobbies;
+      const chess = hobbies.elements[0];
+      expect(chess.fields.name.id).toEqual('profile-hobbies-chess-name');
+      const ids = hobbies.elements.map((e) => e.id);
+      hobbies.swap(0, 1);
+      hobbies.prepend({ name: 'tennis' });
+      expect(hobbies.elements[2]).toBe(chess);
+      expect(hobbies.elements.slice(1).map((e) => e.id)).toEqual(
+        [...ids].reverse()
+      );
+      expect(hobbies.elements[2].fields.name.errorId).toEqual(
+        'profile-hobbies-chess-name-errors'
+      );
+    });
+
+    it('returns aria attributes', () => {
+      const form = new Form({
+        model: defaultValue,
+        id: 'profile',
+        validations: { name: 'required' },
+      });
+      expect(form.fields.name.ariaAttributes()).toEqual({
+        id: 'profile-name',
+        'aria-invalid': false,
+        'aria-describedby': undefined,
+        'aria-required': true,
+      });
+      form.touch();
+      expect(form.fields.name.ariaAttributes()).toMatchObject({
+        'aria-invalid': true,
+        'aria-describedby': 'profile-name-errors',
+      });
+    });
+
+    it('focuses the first invalid field in the document when submitting fails', async () => {
+      const form = createForm({
+        validations: {
+          name: 'required',
+          description: 'required',
+          nullableValue: 'required',
+          age: min(20),
+        },
+      });
+      const name = element(2);
+      const description = element(1);
+      const age = element(3);
+      form.fields.name.registerElement(name);
+      form.register('description').ref(description);
+      form.fields.age.registerElement(age);
+      form.fields.age.registerElement(null);
+      await form.submit();
+      expect(description.focus).toHaveBeenCalled();
+      expect(name.focus).not.toHaveBeenCalled();
+      expect(form.errorSummary.map((e) => e.path)).toEqual([
+        'description',
+        'name',
+        'nullableValue',
+        'age',
+      ]);
+      expect(form.errorSummary[0]).toEqual({
+        path: 'description',
+        id: form.fields.description.id,
+        errorId: form.fields.description.errorId,
+        errors: ['required-field'],
+      });
+    });
+
+    it('focuses the first field rejected by the server', async () => {
+      const form = new Form({
+        model: defaultValue,
+        onSubmit: () => {
+          throw new SubmitError({ age: ['too-young'], name: ['taken'] });
+        },
+        onSubmitError: () => undefined,
+      });
+      const name = element(2);
+      const age = element(1);
+      form.fields.name.registerElement(name);
+      form.fields.age.registerElement(age);
+      await form.submit();
+      expect(age.focus).toHaveBeenCalled();
+      expect(name.focus).not.toHaveBeenCalled();
+    });
+
+    it('does not focus fields if disabled', async () => {
+      const form = new Form({
+        model: defaultValue,
+        validations: { name: 'required' },
+        focusFirstInvalid: false,
+      });
+      const name = element(1);
+      form.fields.name.registerElement(name);
+      await form.submit();
+      expect(name.focus).not.toHaveBeenCalled();
+      expect(form.focusFirstInvalid()).toEqual(true);
+      expect(name.focus).toHaveBeenCalled();
+    });
+  });
+
+  describe('computed fields', () => {
+    interface Quote {
+      title: string;
+      slug: string;
+      items: Array<{ price: number; quantity: number }>;
+      total: number;
+    }
+    const slugify = ({ title }: Quote): string =>
+      title.toLowerCase().replace(/\W+/g, '-');
+    const createQuote = (model: Partial<Quote> = {}): Form<Quote> =>
+      new Form<Quote>({
+        model: { title: '', slug: '', items: [], total: 0, ...model },
+        validations: { total: max(100) },
+        computed: {
+          total: {
+            compute: ({ items }) =>
+              items.reduce((sum, e) => sum + e.price * e.quantity, 0),
+            deps: ['items'],
+          },
+          slug: { compute: slugify, deps: ['title'], editable: true },
+        },
+      });
+
+    it('computes values from other fields', () => {
+      const form = createQuote({ items: [{ price: 10, quantity: 2 }] });
+      expect(form.model.total).toEqual(20);
+      expect(form.dirty).toEqual(false);
+      form.fields.items.add({ price: 5, quantity: 1 });
+      expect(form.model.total).toEqual(25);
+      form.fields.items.elements[0].fields.quantity.onChange(3);
+      expect(form.model.total).toEqual(35);
+      expect(form.changes).toMatchObject({ total: 35 });
+      form.reset();
+      expect(form.model.total).toEqual(20);
+    });
+
+    it('validates computed values', () => {
+      const form = createQuote();
+      form.fields.items.add({ price: 60, quantity: 2 });
+      expect(form.fields.total.errors).toEqual(['too-large']);
+      expect(form.valid).toEqual(false);
+    });
+
+    it('replaces changes of read-only fields', () => {
+      const form = createQuote({ items: [{ price: 10, quantity: 2 }] });
+      expect(form.fields.total.readOnly).toEqual(true);
+      expect(form.fields.slug.readOnly).toEqual(false);
+      form.fields.total.onChange(5);
+      expect(form.model.total).toEqual(20);
+      expect(form.register('total').readOnly).toEqual(true);
+    });
+
+    it('fills editable fields until the user changes them', () => {
+      const form = createQuote();
+      form.fields.title.onChange('Big Order');
+      expect(form.model.slug).toEqual('big-order');
+      form.fields.slug.onChange('custom');
+      form.fields.title.onChange('Bigger Order');
+      expect(form.model.slug).toEqual('custom');
+      form.fields.slug.onChange('');
+      form.fields.title.onChange('Small Order');
+      expect(form.model.slug).toEqual('small-order');
+    });
+
+    it('keeps editable values which differ from the computed value', () => {
+      const form = createQuote({ title: 'Order', slug: 'my-order' });
+      form.fields.title.onChange('Big Order');
+      expect(form.model.slug).toEqual('my-order');
+      form.reinitialize({ title: 'Order', slug: '', items: [], total: 0 });
+      expect(form.model.slug).toEqual('order');
+      expect(form.dirty).toEqual(false);
+    });
+  });
+
+  describe('patch', () => {
+    it('replaces changed values', () => {
+      const form = createForm({
+        value: { address: { streetName: 'Elm Street' } },
+      });
+      form.fields.name.onChange('Freddy');
+      form.fields.address.fields.streetName.onChange('Crystal Lake');
+      form.fields.address.fields.streetNumber.onChange(13);
+      expect(form.patch).toEqual([
+        { op: 'replace', path: '/name', value: 'Freddy' },
+        { op: 'replace', path: '/address/streetName', value: 'Crystal Lake' },
+        { op: 'add', path: '/address/streetNumber', value: 13 },
+      ]);
+      form.reset();
+      expect(form.patch).toEqual([]);
+    });
+
+    it('adds, removes and moves elements', () => {
+      const form = createForm({
+        value: {
+          hobbies: [{ name: 'chess' }, { name: 'golf' }, { name: 'go' }],
+        },
+      });
+      form.fields.hobbies.elements[0].remove();
+      form.fields.hobbies.swap(0, 1);
+      form.fields.hobbies.elements[0].fields.name.onChange('baduk');
+      form.fields.hobbies.add({ name: 'tennis' });
+      expect(form.patch).toEqual([
+        { op: 'remove', path: '/hobbies/0' },
+        { op: 'move', from: '/hobbies/1', path: '/hobbies/0' },
+        { op: 'replace', path: '/hobbies/0/name', value: 'baduk' },
+        { op: 'add', path: '/hobbies/2', value: { name: 'tennis' } },
+      ]);
+    });
+
+    it('compares replaced elements by index', () => {
+      const form = createForm({ value: { emails: ['a@example.com'] } });
+      form.fields.emails.onChange(['b@example.com', 'c@example.com']);
+      expect(form.patch).toEqual([
+        { op: 'replace', path: '/emails/0', value: 'b@example.com' },
+        { op: 'add', path: '/emails/1', value: 'c@example.com' },
+      ]);
+    });
   });
 
   describe('validation', () => {
@@ -254,123 +837,1232 @@ describe(Form, () => {
     });
   });
 
-  describe('pre-defined validation', () => {
-    it('validates a required field', () => {
+  describe('async validation', () => {
+    it('marks the field as validating until the promise resolves', async () => {
       const form = createForm({
-        validations: { name: 'required' },
+        validations: {
+          name: async ({ value }) => (value === 'taken' ? ['taken'] : []),
+        },
       });
-      expect(form.valid).toBeFalsy();
-      form.fields.name.onChange('test');
-      expect(form.valid).toBeTruthy();
+      await wait();
+      form.fields.name.onChange('taken');
+      expect(form.fields.name.validating).toEqual(true);
+      expect(form.validating).toEqual(true);
+      await wait();
+      expect(form.fields.name.validating).toEqual(false);
+      expect(form.fields.name.errors).toEqual(['taken']);
+      expect(tracker.wasCalled).toEqual(true);
     });
-    it('validates an email field', () => {
+
+    it('ignores and aborts stale validations', async () => {
+      const signals: AbortSignal[] = [];
       const form = createForm({
-        validations: { name: 'email' },
+        validations: {
+          name: ({ value, signal }) => {
+            signals.push(signal);
+            return wait(value === 'slow' ? 20 : 0).then(() => [value]);
+          },
+        },
       });
-      form.fields.name.onChange('test');
-      expect(form.valid).toBeFalsy();
-      form.fields.name.onChange('test@example.com');
-      expect(form.valid).toBeTruthy();
+      form.fields.name.onChange('slow');
+      form.fields.name.onChange('fast');
+      expect(signals[signals.length - 2].aborted).toEqual(true);
+      await wait(30);
+      expect(form.fields.name.errors).toEqual(['fast']);
     });
-    it('validates a json field', () => {
+
+    it('aborts pending validations when resetting', async () => {
+      const signals: AbortSignal[] = [];
       const form = createForm({
-        validations: { name: 'json' },
+        mode: 'onBlur',
+        validations: {
+          name: ({ value, signal }) => {
+            signals.push(signal);
+            return wait(5).then(() => (value === 'taken' ? ['taken'] : []));
+          },
+        },
       });
-      form.fields.name.onChange('test');
-      expect(form.valid).toBeFalsy();
-      form.fields.name.onChange('{ "foo": "baz"}');
-      expect(form.valid).toBeTruthy();
+      form.fields.name.onChange('taken');
+      form.fields.name.onBlur();
+      form.reset();
+      expect(signals[0].aborted).toEqual(true);
+      expect(form.validating).toEqual(false);
+      await wait(10);
+      expect(form.fields.name.value).toEqual('');
+      expect(form.fields.name.errors).toEqual([]);
+      expect(form.valid).toEqual(true);
     });
-    it('validates a website field', () => {
+
+    it('debounces validations', async () => {
+      const validation = jest.fn(() => []);
       const form = createForm({
-        validations: { name: 'website' },
+        validations: { name: debounceValidation(validation, 10) },
       });
-      form.fields.name.onChange('test');
-      expect(form.valid).toBeFalsy();
-      form.fields.name.onChange('https://google.com');
-      expect(form.valid).toBeTruthy();
+      form.fields.name.onChange('a');
+      form.fields.name.onChange('ab');
+      form.fields.name.onChange('abc');
+      await wait(20);
+      expect(validation).toHaveBeenCalledTimes(1);
+      expect(validation).toHaveBeenCalledWith(
+        expect.objectContaining({ value: 'abc' })
+      );
     });
-    it('validates a number field', () => {
+
+    it('treats debounced validations throwing an error as failed', async () => {
       const form = createForm({
-        validations: { age: 'number' },
+        validations: {
+          name: debounceValidation(() => {
+            throw new Error();
+          }, 0),
+        },
       });
-      // eslint-disable-next-line
-      // @ts-ignore
-      form.fields.age.onChange('test');
-      expect(form.valid).toBeFalsy();
-      form.fields.age.onChange(12);
-      expect(form.valid).toBeTruthy();
-    });
-  });
-
-  describe('submitting', () => {
-    it('prevents the event default', () => {
-      const mock = jest.fn();
-      const submitEvent = {
-        preventDefault: mock,
-      } as unknown as Event;
-      const form = createForm();
-      form.submit(submitEvent);
-      expect(mock).toBeCalled();
+      await form.submit();
+      expect(form.fields.name.errors).toEqual(['validation-failed']);
     });
 
-    it('invokes the submit handler if all fields are valid', () => {
-      const form = createForm();
+    it('treats failing validations as errors', async () => {
+      const form = createForm({
+        validations: { name: async () => Promise.reject(new Error()) },
+      });
+      await form.submit();
+      expect(form.fields.name.errors).toEqual(['validation-failed']);
       expect(tracker.submitted).toBeFalsy();
-      form.submit();
-      expect(tracker.submitted).toBeTruthy();
     });
 
-    it('does not submit if the fields are not valid', () => {
-      const form = createForm({ validations: { name: 'required' } });
-      form.submit();
+    it('waits for pending validations before submitting', async () => {
+      const form = createForm({
+        validations: {
+          name: async ({ value }) => {
+            await wait(5);
+            return value ? [] : ['required'];
+          },
+        },
+      });
+      await form.submit();
       expect(tracker.submitted).toBeFalsy();
+      form.fields.name.onChange('Freddy');
+      await form.submit();
+      expect(tracker.submitted).toBeTruthy();
     });
+  });
 
-    it('touches fields', () => {
-      const form = createForm();
-      expect(form.fields.name.touched).toBeFalsy();
-      form.submit();
-      expect(form.fields.name.touched).toBeTruthy();
+  describe('incremental validation', () => {
+    it('does not validate again when nothing changed', () => {
+      const validation = jest.fn(() => []);
+      const form = createForm({ validations: { name: validation } });
+      expect(validation).toHaveBeenCalledTimes(1);
+      form.fields.name.onFocus();
+      form.fields.name.onBlur();
+      form.touch();
+      expect(validation).toHaveBeenCalledTimes(1);
     });
 
-    it('can submit with null value', async () => {
-      const form2 = createForm({
-        value: {
-          nullableValue: null,
+    it('validates functions again when other fields change', () => {
+      const form = createForm({
+        value: { age: 12 },
+        validations: {
+          name: ({ model }) => (model.age < 18 ? ['too young'] : []),
         },
       });
-      expect(form2.fields.nullableValue.value).toBeNull();
-      await form2.submit();
+      expect(form.fields.name.errors).toEqual(['too young']);
+      form.fields.age.onChange(20);
+      expect(form.fields.name.errors).toEqual([]);
     });
 
-    it('handles async functions', async () => {
+    it('validates the parent fields of a changed field', () => {
       const form = createForm({
-        onSubmit: async (form) => {
-          expect(form.submissionStatus).toBe('submitting');
-        },
+        value: { emails: ['test@example.com', 'test'] },
+        validations: { emails: 'email' },
+      });
+      expect(form.fields.emails.valid).toEqual(false);
+      form.fields.emails.elements[1].onChange('hello@example.com');
+      expect(form.fields.emails.errors).toEqual([]);
+      expect(form.fields.emails.valid).toEqual(true);
+    });
+
+    it('validates again after resetting', () => {
+      const form = createForm({ validations: { name: 'required' } });
+      form.fields.name.onChange('test');
+      form.fields.name.reset();
+      expect(form.fields.name.errors).toEqual(['required-field']);
+    });
+
+    it('compares values structurally', () => {
+      const form = createForm({
+        value: { address: { streetName: 'Street', streetNumber: 1 } },
+      });
+      form.fields.address.onChange({ streetNumber: 1, streetName: 'Street' });
+      expect(form.dirty).toEqual(false);
+      form.fields.address.fields.streetNumber.onChange(2);
+      expect(form.fields.address.dirty).toEqual(true);
+    });
+  });
+
+  describe('validation dependencies', () => {
+    it('only validates again when a dependency changes', () => {
+      const validation = jest.fn(({ model }: { model: Model }) =>
+        model.address.streetName ? [] : ['street missing']
+      );
+      const form = createForm({
+        validations: { name: dependsOn(['address.streetName'], validation) },
+      });
+      expect(form.fields.name.errors).toEqual(['street missing']);
+      form.fields.age.onChange(30);
+      expect(validation).toHaveBeenCalledTimes(1);
+      form.fields.address.fields.streetName.onChange('Street');
+      expect(validation).toHaveBeenCalledTimes(2);
+      expect(form.fields.name.errors).toEqual([]);
+    });
+
+    it('validates when a parent of the dependency changes', () => {
+      const form = createForm({
+        validations: {
+          name: dependsOn(['address.streetName'], ({ model }) =>
+            model.address.streetName ? [] : ['street missing']
+          ),
+        },
+      });
+      form.fields.address.onChange({ streetName: 'Street' });
+      expect(form.fields.name.errors).toEqual([]);
+    });
+
+    it('validates dependencies within arrays', () => {
+      const form = createForm({
+        value: { hobbies: [{ name: 'chess' }] },
+        validations: {
+          name: dependsOn(['hobbies'], ({ model }) =>
+            model.hobbies.some((e) => e.name === 'go') ? ['no go'] : []
+          ),
+        },
+      });
+      form.fields.hobbies.elements[0].fields.name.onChange('go');
+      expect(form.fields.name.errors).toEqual(['no go']);
+    });
+
+    it('touches the dependent field if requested', () => {
+      const form = createForm({
+        mode: 'onTouched',
+        validations: {
+          description: dependsOn(
+            ['name'],
+            ({ value, model }) =>
+              value === model.name ? [] : ['must match name'],
+            { touch: true }
+          ),
+        },
+      });
+      form.fields.name.onChange('Freddy');
+      expect(form.fields.description.touched).toEqual(true);
+      expect(form.fields.description.errors).toEqual(['must match name']);
+    });
+
+    it("doesn't touch the dependent field when resetting", () => {
+      const form = createForm({
+        value: { name: 'Freddy' },
+        validations: {
+          description: dependsOn(
+            ['name'],
+            ({ value, model }) =>
+              value === model.name ? [] : ['must match name'],
+            { touch: true }
+          ),
+        },
+      });
+      form.fields.name.onChange('Jason');
+      form.reset();
+      expect(form.fields.name.touched).toEqual(false);
+      expect(form.fields.description.touched).toEqual(false);
+      form.reinitialize({ ...defaultValue, name: 'Jason' });
+      expect(form.fields.description.touched).toEqual(false);
+    });
+  });
+
+  describe('schema validation', () => {
+    const resolver = jsonSchemaResolver<Model>({
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        address: {
+          type: 'object',
+          required: ['streetName'],
+        },
+        hobbies: {
+          type: 'array',
+          maxItems: 2,
+          items: {
+            type: 'object',
+            properties: { name: { type: 'string', minLength: 3 } },
+          },
+        },
+        optionalContent: {
+          type: 'object',
+          required: ['name'],
+        },
+      },
+    });
+
+    it('distributes the issues onto the fields', () => {
+      const form = createForm({
+        value: { hobbies: [{ name: 'go' }] },
+        validations: resolver,
+      });
+      expect(form.valid).toEqual(false);
+      expect(form.fields.name.errors).toEqual(['too-short']);
+      expect(form.fields.address.fields.streetName.errors).toEqual([
+        'required-field',
+      ]);
+      expect(form.fields.hobbies.elements[0].fields.name.errors).toEqual([
+        'too-short',
+      ]);
+      form.fields.name.onChange('Freddy');
+      form.fields.address.fields.streetName.onChange('Street');
+      form.fields.hobbies.elements[0].fields.name.onChange('chess');
+      expect(form.fields.name.errors).toEqual([]);
+      expect(form.fields.hobbies.elements[0].fields.name.errors).toEqual([]);
+      expect(form.valid).toEqual(true);
+      form.fields.hobbies.add({ name: 'piano' });
+      form.fields.hobbies.add({ name: 'guitar' });
+      expect(form.fields.hobbies.errors).toEqual(['too-many-items']);
+    });
+
+    it('assigns issues of missing objects to the closest field', () => {
+      const form = createForm({
+        value: { name: 'Freddy', address: { streetName: 'Street' } },
+        validations: (model) =>
+          model.optionalContent
+            ? []
+            : [{ path: 'optionalContent.name', message: 'missing' }],
+      });
+      expect(form.fields.optionalContent.errors).toEqual(['missing']);
+      expect(form.valid).toEqual(false);
+    });
+
+    it('respects the validation mode', () => {
+      const form = createForm({ validations: resolver, mode: 'onBlur' });
+      expect(form.fields.name.errors).toEqual([]);
+      form.fields.name.onBlur();
+      expect(form.fields.name.errors).toEqual(['too-short']);
+      expect(form.fields.address.fields.streetName.errors).toEqual([]);
+    });
+
+    it('waits for async resolvers before submitting', async () => {
+      const form = createForm({
+        value: { name: 'Freddy' },
+        validations: async ({ name }) =>
+          name === 'taken' ? [{ path: ['name'], message: 'taken' }] : [],
+      });
+      form.fields.name.onChange('taken');
+      expect(form.validating).toEqual(true);
+      await form.submit();
+      expect(form.fields.name.errors).toEqual(['taken']);
+      expect(tracker.submitted).toBeFalsy();
+    });
+  });
+
+  describe('validation modes', () => {
+    it('validates on change', () => {
+      const form = createForm({
+        mode: 'onChange',
+        validations: { name: 'email', age: 'number' },
+      });
+      expect(form.fields.name.errors).toEqual([]);
+      form.fields.name.onChange('test');
+      expect(form.fields.name.errors).toEqual(['invalid-email-address']);
+      // @ts-expect-error testing an invalid value
+      form.fields.age.onChange('test');
+      form.fields.name.onChange('test@example.com');
+      expect(form.fields.name.errors).toEqual([]);
+      expect(form.fields.age.errors).toEqual(['invalid-number']);
+    });
+
+    it('validates on blur', () => {
+      const form = createForm({
+        mode: 'onBlur',
+        validations: { name: 'email' },
+      });
+      form.fields.name.onChange('test');
+      expect(form.fields.name.errors).toEqual([]);
+      form.fields.name.onBlur();
+      expect(form.fields.name.errors).toEqual(['invalid-email-address']);
+      form.fields.name.onChange('test@example.com');
+      expect(form.fields.name.errors).toEqual(['invalid-email-address']);
+    });
+
+    it('validates on change once touched', () => {
+      const form = createForm({
+        mode: 'onTouched',
+        validations: { name: 'email' },
+      });
+      form.fields.name.onChange('test');
+      expect(form.fields.name.errors).toEqual([]);
+      form.fields.name.onBlur();
+      expect(form.fields.name.errors).toEqual(['invalid-email-address']);
+      form.fields.name.onChange('test@example.com');
+      expect(form.fields.name.errors).toEqual([]);
+    });
+
+    it('validates on submit and revalidates depending on reValidateMode', async () => {
+      const form = createForm({
+        mode: 'onSubmit',
+        reValidateMode: 'onBlur',
+        validations: { name: 'required' },
+      });
+      expect(form.valid).toEqual(true);
+      form.fields.name.onBlur();
+      expect(form.fields.name.errors).toEqual([]);
+      await form.submit();
+      expect(tracker.submitted).toBeFalsy();
+      expect(form.fields.name.errors).toEqual(['required-field']);
+      form.fields.name.onChange('Freddy');
+      expect(form.fields.name.errors).toEqual(['required-field']);
+      form.fields.name.onBlur();
+      expect(form.fields.name.errors).toEqual([]);
+    });
+
+    it('hides errors again after reset', async () => {
+      const form = createForm({
+        mode: 'onSubmit',
+        validations: { name: 'required' },
+      });
+      await form.submit();
+      form.reset();
+      expect(form.fields.name.errors).toEqual([]);
+      form.fields.name.onChange('');
+      expect(form.fields.name.errors).toEqual([]);
+    });
+  });
+
+  describe('pre-defined validation', () => {
+    it('validates a required field', () => {
+      const form = createForm({
+        validations: { name: 'required' },
+      });
+      expect(form.valid).toBeFalsy();
+      form.fields.name.onChange('test');
+      expect(form.valid).toBeTruthy();
+    });
+    it('validates an email field', () => {
+      const form = createForm({
+        validations: { name: 'email' },
+      });
+      form.fields.name.onChange('test');
+      expect(form.valid).toBeFalsy();
+      form.fields.name.onChange('test@example.com');
+      expect(form.valid).toBeTruthy();
+    });
+    it('validates a json field', () => {
+      const form = createForm({
+        validations: { name: 'json' },
+      });
+      form.fields.name.onChange('test');
+      expect(form.valid).toBeFalsy();
+      form.fields.name.onChange('{ "foo": "baz"}');
+      expect(form.valid).toBeTruthy();
+    });
+    it('validates a website field', () => {
+      const form = createForm({
+        validations: { name: 'website' },
+      });
+      form.fields.name.onChange('test');
+      expect(form.valid).toBeFalsy();
+      form.fields.name.onChange('https://google.com');
+      expect(form.valid).toBeTruthy();
+    });
+    it('validates a number field', () => {
+      const form = createForm({
+        validations: { age: 'number' },
+      });
+      // eslint-disable-next-line
+      // @ts-ignore
+      form.fields.age.onChange('test');
+      expect(form.valid).toBeFalsy();
+      form.fields.age.onChange(12);
+      expect(form.valid).toBeTruthy();
+    });
+  });
+
+  describe('required validation', () => {
+    it('requires numbers which are not NaN', () => {
+      const form = createForm({ validations: { age: 'required' } });
+      expect(form.fields.age.errors).toEqual([]);
+      form.fields.age.onChange(NaN);
+      expect(form.fields.age.errors).toEqual(['required-field']);
+      form.fields.age.onChange(0);
+      expect(form.fields.age.errors).toEqual([]);
+    });
+
+    it('requires null values to be set', () => {
+      const form = createForm({ validations: { nullableValue: 'required' } });
+      expect(form.fields.nullableValue.required).toEqual(true);
+      expect(form.fields.nullableValue.errors).toEqual(['required-field']);
+      form.fields.nullableValue.onChange('value');
+      expect(form.fields.nullableValue.valid).toEqual(true);
+    });
+
+    it('requires a FieldSet to have elements', () => {
+      const form = createForm({
+        validations: { emails: ['required', 'email'] },
+      });
+      expect(form.fields.emails.required).toEqual(true);
+      expect(form.fields.emails.errors).toEqual(['required-field']);
+      form.fields.emails.add('test@example.com');
+      expect(form.fields.emails.errors).toEqual([]);
+      expect(form.fields.emails.valid).toEqual(true);
+    });
+
+    it("doesn't treat files and other objects as blank", () => {
+      // like files, blobs have no own enumerable properties
+      const { Blob } = jest.requireActual('buffer');
+      const form = new Form<{
+        attachment: Blob | null;
+        tags: Map<string, string>;
+      }>({
+        model: { attachment: null, tags: new Map() },
+        validations: { attachment: 'required', tags: required() },
+      });
+      expect(form.fields.attachment.errors).toEqual(['required-field']);
+      form.fields.attachment.onChange(new Blob(['abc']));
+      expect(form.fields.attachment.errors).toEqual([]);
+      expect(form.fields.tags.errors).toEqual([]);
+    });
+
+    it('requires nested objects to contain a value', () => {
+      const form = createForm({ validations: { address: 'required' } });
+      expect(form.fields.address.required).toEqual(true);
+      expect(form.fields.address.errors).toEqual(['required-field']);
+      form.fields.address.fields.streetName.onChange('');
+      expect(form.fields.address.errors).toEqual(['required-field']);
+      form.fields.address.fields.streetName.onChange('Baker Street');
+      expect(form.fields.address.errors).toEqual([]);
+    });
+
+    it('uses a custom check for empty values', () => {
+      const form = createForm({
+        value: { name: ' ' },
+        validations: {
+          name: required((value: string) => !value.trim()),
+        },
+      });
+      expect(form.fields.name.required).toEqual(true);
+      expect(form.fields.name.errors).toEqual(['required-field']);
+      form.fields.name.onChange('Freddy');
+      expect(form.fields.name.valid).toEqual(true);
+    });
+  });
+
+  describe('conditional validation', () => {
+    it('only validates while the condition is met', () => {
+      const form = createForm({
+        validations: {
+          description: when(
+            ({ model }: { model: Model }) => model.name === 'business',
+            ['required', minLength(3)]
+          ),
+        },
+      });
+      expect(form.fields.description.required).toEqual(false);
+      expect(form.fields.description.valid).toEqual(true);
+      form.fields.name.onChange('business');
+      expect(form.fields.description.required).toEqual(true);
+      expect({ ...form.fields.description }.required).toEqual(true);
+      expect(form.fields.description.errors).toEqual(['required-field']);
+      form.fields.description.onChange('ab');
+      expect(form.fields.description.errors).toEqual(['too-short']);
+      form.fields.name.onChange('private');
+      expect(form.fields.description.required).toEqual(false);
+      expect(form.valid).toEqual(true);
+    });
+
+    it('is not required by other conditional validations', () => {
+      const form = createForm({
+        validations: {
+          name: when(({ value }) => !!value, 'email'),
+        },
+      });
+      form.fields.name.onChange('test');
+      expect(form.fields.name.required).toEqual(false);
+      expect(form.fields.name.errors).toEqual(['invalid-email-address']);
+    });
+  });
+
+  describe('parameterized validation', () => {
+    it("doesn't validate again when other fields change", () => {
+      const form = createForm({
+        validations: {
+          name: [minLength(2), maxLength(4), oneOf(['a', 'bb'])],
+          age: [min(18), max(99)],
+          emails: [minItems(1), maxItems(3)],
+        },
+      });
+      const fields = [form.fields.name, form.fields.age, form.fields.emails];
+      const errors = fields.map((e) => e.errors);
+      form.fields.description.onChange('changed');
+      // the errors are replaced whenever a field is validated
+      fields.forEach((field, index) =>
+        expect(field.errors).toBe(errors[index])
+      );
+    });
+
+    it('validates the length of strings', () => {
+      const form = createForm({
+        validations: { name: [minLength(2), maxLength(4)] },
+      });
+      expect(form.fields.name.errors).toEqual([]);
+      form.fields.name.onChange('a');
+      expect(form.fields.name.errorDetails).toEqual([
+        { code: 'too-short', params: { min: 2 } },
+      ]);
+      form.fields.name.onChange('abcde');
+      expect(form.fields.name.errorDetails).toEqual([
+        { code: 'too-long', params: { max: 4 } },
+      ]);
+      expect(form.fields.name.errors).toEqual(['too-long']);
+    });
+
+    it('validates numbers', () => {
+      const form = createForm({
+        value: { age: 12 },
+        validations: { age: [min(18), max(99), 'integer'] },
+      });
+      expect(form.fields.age.errorDetails).toEqual([
+        { code: 'too-small', params: { min: 18 } },
+      ]);
+      form.fields.age.onChange(100.5);
+      expect(form.fields.age.errors).toEqual(['too-large', 'invalid-integer']);
+    });
+
+    it('validates a list of allowed values', () => {
+      const form = createForm({
+        validations: { name: oneOf(['Freddy', 'George']) },
+      });
+      form.fields.name.onChange('Fred');
+      expect(form.fields.name.errorDetails).toEqual([
+        { code: 'invalid-value', params: { values: ['Freddy', 'George'] } },
+      ]);
+    });
+
+    it('validates dates', () => {
+      const form = createForm({ validations: { description: 'date' } });
+      form.fields.description.onChange('yesterday');
+      expect(form.fields.description.errors).toEqual(['invalid-date']);
+      form.fields.description.onChange('2021-12-24');
+      expect(form.fields.description.errors).toEqual([]);
+    });
+
+    it('validates the number of elements', () => {
+      const form = createForm({
+        validations: { hobbies: [minItems(1), maxItems(2)] },
+      });
+      expect(form.fields.hobbies.errorDetails).toEqual([
+        { code: 'too-few-items', params: { min: 1 } },
+      ]);
+      form.fields.hobbies.onChange([
+        { name: 'a' },
+        { name: 'b' },
+        { name: 'c' },
+      ]);
+      expect(form.fields.hobbies.errors).toEqual(['too-many-items']);
+    });
+
+    it('compares the value with another field', () => {
+      const form = createForm({
+        validations: { description: matchesField('name') },
+      });
+      form.fields.name.onChange('secret');
+      expect(form.fields.description.errorDetails).toEqual([
+        { code: 'fields-differ', params: { field: 'name' } },
+      ]);
+      form.fields.description.onChange('secret');
+      expect(form.fields.description.errors).toEqual([]);
+      form.fields.name.onChange('other');
+      expect(form.fields.description.errors).toEqual(['fields-differ']);
+    });
+  });
+
+  describe('submitting', () => {
+    it('prevents the event default', () => {
+      const mock = jest.fn();
+      const submitEvent = {
+        preventDefault: mock,
+      } as unknown as Event;
+      const form = createForm();
+      form.submit(submitEvent);
+      expect(mock).toBeCalled();
+    });
+
+    it('invokes the submit handler if all fields are valid', () => {
+      const form = createForm();
+      expect(tracker.submitted).toBeFalsy();
+      form.submit();
+      expect(tracker.submitted).toBeTruthy();
+    });
+
+    it('does not submit if the fields are not valid', () => {
+      const form = createForm({ validations: { name: 'required' } });
+      form.submit();
+      expect(tracker.submitted).toBeFalsy();
+    });
+
+    it('touches fields', () => {
+      const form = createForm();
+      expect(form.fields.name.touched).toBeFalsy();
+      form.submit();
+      expect(form.fields.name.touched).toBeTruthy();
+    });
+
+    it('can submit with null value', async () => {
+      const form2 = createForm({
+        value: {
+          nullableValue: null,
+        },
+      });
+      expect(form2.fields.nullableValue.value).toBeNull();
+      await form2.submit();
+    });
+
+    it('handles async functions', async () => {
+      const form = createForm({
+        onSubmit: async (form) => {
+          expect(form.submissionStatus).toBe('submitting');
+        },
+      });
+      expect(form.submissionStatus).toBe('idle');
+      await form.submit();
+      expect(form.submissionStatus).toBe('submitted');
+    });
+
+    it('handles error', async () => {
+      let error = null;
+      const form = createForm({
+        onSubmit: async (form) => {
+          expect(form.submissionStatus).toBe('submitting');
+          throw new Error('');
+        },
+        onSubmitError: (e: Error) => {
+          error = e;
+        },
+      });
+      await form.submit();
+      expect(form.submissionStatus).toBe('error');
+      expect(form.error).toBeTruthy();
+      // Custom error handling
+      expect(error).toBeTruthy();
+    });
+  });
+
+  describe('server errors', () => {
+    it('sets errors on nested fields and array elements', () => {
+      const form = createForm({
+        value: {
+          address: { streetName: '' },
+          hobbies: [{ name: 'chess' }, { name: 'go' }],
+        },
+      });
+      form.setErrors({
+        name: 'taken',
+        'address.streetName': ['too long'],
+        'hobbies[1].name': ['unknown'],
+      });
+      expect(form.fields.name.errors).toEqual(['taken']);
+      expect(form.fields.address.fields.streetName.errors).toEqual([
+        'too long',
+      ]);
+      expect(form.fields.hobbies.elements[1].fields.name.errors).toEqual([
+        'unknown',
+      ]);
+      expect(form.valid).toEqual(false);
+      expect(tracker.wasCalled).toEqual(true);
+    });
+
+    it('keeps validation errors and clears server errors on change', () => {
+      const form = createForm({ validations: { name: 'email' } });
+      form.fields.name.onChange('test');
+      form.setErrors({ name: 'taken' });
+      expect(form.fields.name.errors).toEqual([
+        'invalid-email-address',
+        'taken',
+      ]);
+      form.fields.name.onChange('test@example.com');
+      expect(form.fields.name.errors).toEqual([]);
+      expect(form.valid).toEqual(true);
+    });
+
+    it('sets errors of missing nested objects on the closest field without changing the model', () => {
+      const form = createForm({
+        value: { name: 'x', optionalContent: undefined },
+      });
+      form.setErrors({
+        'optionalContent.name': 'missing',
+        'hobbies[3].name': 'unknown',
+        'base.x': 'no',
+      });
+      expect(form.fields.optionalContent.errors).toEqual(['missing']);
+      expect(form.fields.hobbies.errors).toEqual(['unknown']);
+      expect(form.formErrors).toEqual(['no']);
+      expect(Object.keys(form.fields)).not.toContain('base');
+      expect(form.model).toEqual({
+        ...defaultValue,
+        name: 'x',
+        optionalContent: undefined,
+      });
+      expect(form.dirty).toEqual(false);
+      expect(form.changes).toEqual({});
+      expect(form.patch).toEqual([]);
+    });
+
+    it('replaces previously set errors', () => {
+      const form = createForm();
+      form.setErrors({ name: 'taken' });
+      form.setErrors({ age: 'too young' });
+      expect(form.fields.name.errors).toEqual([]);
+      expect(form.fields.age.errors).toEqual(['too young']);
+    });
+
+    it('maps errors of a SubmitError thrown while submitting', async () => {
+      const form = createForm({
+        value: { address: { streetName: '' } },
+        onSubmit: () => {
+          throw new SubmitError({
+            errors: [
+              {
+                source: { pointer: '/data/attributes/address/streetName' },
+                detail: 'too long',
+              },
+              { source: { pointer: '/data/attributes/name' }, detail: 'taken' },
+            ],
+          });
+        },
+        onSubmitError: () => {
+          // do nothing;
+        },
       });
-      expect(form.submissionStatus).toBe('idle');
       await form.submit();
-      expect(form.submissionStatus).toBe('submitted');
+      expect(form.submissionStatus).toEqual('error');
+      expect(form.error).toBeInstanceOf(SubmitError);
+      expect(form.fields.address.fields.streetName.errors).toEqual([
+        'too long',
+      ]);
+      expect(form.fields.name.errors).toEqual(['taken']);
     });
 
-    it('handles error', async () => {
-      let error = null;
+    it('keeps errors without a field on the form and clears them when submitting again', async () => {
+      let fail = true;
+      const onSubmit = jest.fn(() => {
+        if (fail) {
+          throw new SubmitError({ errors: [{ detail: 'Try again later' }] });
+        }
+      });
       const form = createForm({
-        onSubmit: async (form) => {
-          expect(form.submissionStatus).toBe('submitting');
-          throw new Error('');
+        onSubmit,
+        onSubmitError: () => {
+          // do nothing;
         },
-        onSubmitError: (e: Error) => {
-          error = e;
+      });
+      await form.submit();
+      expect(form.formErrors).toEqual(['Try again later']);
+      expect(form.valid).toEqual(true);
+      form.fields.name.onChange('Freddy');
+      fail = false;
+      await form.submit();
+      expect(onSubmit).toHaveBeenCalledTimes(2);
+      expect(form.formErrors).toEqual([]);
+      expect(form.submissionStatus).toEqual('submitted');
+    });
+
+    it('clears errors of unchanged fields when submitting again', async () => {
+      const form = createForm();
+      form.setErrors({ age: 'too young' });
+      expect(form.valid).toEqual(false);
+      await form.submit();
+      expect(tracker.submitted).toBeTruthy();
+    });
+  });
+
+  describe('error messages', () => {
+    it('keeps the codes without messages', () => {
+      const form = createForm({ validations: { name: minLength(3) } });
+      form.fields.name.onChange('ab');
+      expect(form.fields.name.errors).toEqual(['too-short']);
+      expect(form.fields.name.errorDetails).toEqual([
+        { code: 'too-short', params: { min: 3 } },
+      ]);
+    });
+
+    it('formats errors with messages and their parameters', () => {
+      const form = createForm({
+        validations: { name: [minLength(3), 'email'], age: min(18) },
+        messages: {
+          'too-short': 'Mindestens {min} Zeichen',
+          'invalid-email-address': 'Ungültige E-Mail-Adresse',
+          'too-small': (error) => `Mindestens ${error.params?.min} Jahre`,
+        },
+      });
+      form.fields.name.onChange('ab');
+      form.fields.age.onChange(16);
+      expect(form.fields.name.errors).toEqual([
+        'Mindestens 3 Zeichen',
+        'Ungültige E-Mail-Adresse',
+      ]);
+      expect(form.fields.age.errors).toEqual(['Mindestens 18 Jahre']);
+    });
+
+    it('falls back to the message of the error', () => {
+      const form = createForm({
+        validations: {
+          name: () => [{ code: 'taken', message: 'Name is taken' }],
+        },
+      });
+      expect(form.fields.name.errors).toEqual(['Name is taken']);
+    });
+
+    it('prefers translate over messages', () => {
+      const form = createForm({
+        validations: { name: ['required', 'email'] },
+        messages: { 'required-field': 'Required' },
+        translate: (error) =>
+          error.code === 'required-field' ? 'Pflichtfeld' : undefined,
+      });
+      expect(form.fields.name.errors).toEqual(['Pflichtfeld']);
+      form.fields.name.onChange('test');
+      expect(form.fields.name.errors).toEqual(['invalid-email-address']);
+    });
+
+    it('formats errors again when the messages change', () => {
+      const form = createForm({
+        validations: { name: 'required' },
+        messages: { 'required-field': 'Required' },
+      });
+      expect(form.fields.name.errors).toEqual(['Required']);
+      form.setMessages({ messages: { 'required-field': 'Pflichtfeld' } });
+      expect(form.fields.name.errors).toEqual(['Pflichtfeld']);
+    });
+  });
+
+  describe('paths', () => {
+    it('returns fields by their path', () => {
+      const form = createForm({
+        value: { hobbies: [{ name: 'chess' }, { name: 'go' }] },
+      });
+      expect(form.getField('hobbies.1.name')?.value).toEqual('go');
+      expect(form.getField('hobbies.1')?.fields.name.value).toEqual('go');
+      expect(form.getField('address.streetName')?.value).toEqual(undefined);
+      expect(form.getField('hobbies.2.name')).toEqual(undefined);
+    });
+
+    it("doesn't create missing objects when looking up fields", () => {
+      const form = createForm();
+      expect(form.getField('optionalContent.name')).toEqual(undefined);
+      expect(form.errorsAt('optionalContent.name')).toEqual([]);
+      expect(form.model.optionalContent).toEqual(undefined);
+      expect(form.dirty).toEqual(false);
+      expect(tracker.wasCalled).toEqual(false);
+      form.setValue('optionalContent.name', 'Freddy');
+      expect(form.model.optionalContent).toEqual({ name: 'Freddy' });
+    });
+
+    it('reads and updates values by their path', () => {
+      const form = createForm({
+        value: { hobbies: [{ name: 'chess' }] },
+        validations: { address: { streetName: 'required' } },
+      });
+      form.setValue('address.streetName', 'Baker Street');
+      form.setValue('hobbies.0.name', 'go');
+      expect(form.getValue('address.streetName')).toEqual('Baker Street');
+      expect(form.getValue('hobbies.0')).toEqual({ name: 'go' });
+      expect(form.model.hobbies).toEqual([{ name: 'go' }]);
+      expect(form.fields.address.fields.streetName.dirty).toEqual(true);
+      expect(() => form.setValue('hobbies.1.name', 'go')).toThrow(
+        'There is no field at hobbies.1.name'
+      );
+      // @ts-expect-error the value has to match the type of the field
+      form.setValue('age', 'old');
+      // @ts-expect-error the path has to exist in the model
+      form.getValue('address.city');
+    });
+
+    it('touches fields and returns their errors by their path', () => {
+      const form = createForm({ validations: { name: 'required' } });
+      form.touch('name');
+      expect(form.fields.name.touched).toEqual(true);
+      expect(form.fields.age.touched).toEqual(false);
+      expect(form.errorsAt('name')).toEqual(['required-field']);
+      expect(form.errorsAt('age')).toEqual([]);
+    });
+  });
+
+  describe('subscriptions', () => {
+    it('notifies form subscribers on every update', () => {
+      const form = createForm();
+      const listener = jest.fn();
+      const unsubscribe = form.subscribe(listener);
+      form.fields.name.onChange('Freddy');
+      expect(listener).toHaveBeenCalledTimes(1);
+      unsubscribe();
+      form.fields.name.onChange('Fred');
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('notifies field subscribers only when their field changes', () => {
+      const form = createForm();
+      const name = jest.fn();
+      const address = jest.fn();
+      form.fields.name.subscribe(name);
+      form.fields.address.subscribe(address);
+      form.fields.name.onChange('Freddy');
+      form.fields.name.onBlur();
+      expect(name).toHaveBeenCalledTimes(2);
+      expect(address).not.toHaveBeenCalled();
+      form.fields.address.fields.streetName.onChange('Baker Street');
+      expect(address).toHaveBeenCalledTimes(1);
+      expect(name).toHaveBeenCalledTimes(2);
+    });
+
+    it('notifies field subscribers when a dependency changes their errors', () => {
+      const form = createForm({
+        validations: {
+          description: dependsOn(['name'], ({ value, model }) =>
+            value === model.name ? [] : ['differs']
+          ),
         },
       });
+      const listener = jest.fn();
+      form.fields.description.subscribe(listener);
+      form.fields.name.onChange('Freddy');
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(form.fields.description.errors).toEqual(['differs']);
+    });
+  });
+
+  describe('history', () => {
+    it('undoes and redoes changes', () => {
+      const form = createForm({ history: true });
+      expect(form.canUndo).toEqual(false);
+      form.fields.name.onChange('Freddy');
+      form.fields.hobbies.add({ name: 'chess' });
+      form.fields.hobbies.elements[0].remove();
+      expect(form.canUndo).toEqual(true);
+      form.undo();
+      expect(form.model.hobbies).toEqual([{ name: 'chess' }]);
+      expect(form.fields.hobbies.elements[0].fields.name.value).toEqual(
+        'chess'
+      );
+      form.undo();
+      expect(form.model.hobbies).toEqual([]);
+      form.undo();
+      expect(form.model.name).toEqual('');
+      expect(form.dirty).toEqual(false);
+      expect(form.canUndo).toEqual(false);
+      form.redo();
+      expect(form.model.name).toEqual('Freddy');
+      expect(form.canRedo).toEqual(true);
+      form.fields.age.onChange(20);
+      expect(form.canRedo).toEqual(false);
+    });
+
+    it('merges rapid changes of the same field', async () => {
+      const form = createForm({ history: { coalesce: 10 } });
+      form.fields.name.onChange('F');
+      form.fields.name.onChange('Fr');
+      form.fields.name.onChange('Fred');
+      form.fields.age.onChange(20);
+      await wait(20);
+      form.fields.age.onChange(21);
+      form.undo();
+      expect(form.model.age).toEqual(20);
+      form.undo();
+      expect(form.model.age).toEqual(18);
+      expect(form.model.name).toEqual('Fred');
+      form.undo();
+      expect(form.model.name).toEqual('');
+    });
+
+    it('records mass updates as a single step', () => {
+      const form = createForm({ history: true });
+      form.updateFields({ name: 'Freddy', age: 20 });
+      form.undo();
+      expect(form.model.name).toEqual('');
+      expect(form.model.age).toEqual(18);
+    });
+
+    it('limits the number of steps', () => {
+      const form = createForm({ history: { limit: 2, coalesce: 0 } });
+      form.fields.age.onChange(1);
+      form.fields.age.onChange(2);
+      form.fields.age.onChange(3);
+      form.undo();
+      form.undo();
+      expect(form.canUndo).toEqual(false);
+      expect(form.model.age).toEqual(1);
+    });
+  });
+
+  describe('persistence', () => {
+    it('restores the draft of the model', () => {
+      const persist = { key: 'draft', storage: memoryStorage() };
+      const form = createForm({ persist });
+      form.fields.name.onChange('Freddy');
+      form.fields.name.onBlur();
+      form.fields.hobbies.add({ name: 'chess' });
+      const restored = createForm({ persist });
+      expect(restored.model.name).toEqual('Freddy');
+      expect(restored.model.hobbies).toEqual([{ name: 'chess' }]);
+      expect(restored.fields.name.touched).toEqual(true);
+      expect(restored.fields.age.touched).toEqual(false);
+      expect(restored.dirty).toEqual(true);
+      restored.reset();
+      expect(createForm({ persist }).model.name).toEqual('');
+    });
+
+    it('discards drafts of other versions', () => {
+      const storage = memoryStorage();
+      const form = createForm({ persist: { key: 'draft', storage } });
+      form.fields.name.onChange('Freddy');
+      const restored = createForm({
+        persist: { key: 'draft', storage, version: 2 },
+      });
+      expect(restored.model.name).toEqual('');
+      expect(storage.getItem('draft')).toEqual(null);
+    });
+
+    it('clears the draft after submitting', async () => {
+      const persist = { key: 'draft', storage: memoryStorage() };
+      const form = createForm({ persist });
+      form.fields.name.onChange('Freddy');
       await form.submit();
-      expect(form.submissionStatus).toBe('error');
-      expect(form.error).toBeTruthy();
-      // Custom error handling
-      expect(error).toBeTruthy();
+      expect(persist.storage.getItem('draft')).toEqual(null);
+    });
+
+    it('clears the draft after submitting a form without onSubmit', async () => {
+      const persist = { key: 'draft', storage: memoryStorage() };
+      const form = new Form({ model: defaultValue, persist });
+      form.fields.name.onChange('Freddy');
+      await form.submit();
+      expect(persist.storage.getItem('draft')).toEqual(null);
+    });
+
+    it('skips drafts if the storage fails', async () => {
+      const storage = memoryStorage();
+      const error = new Error('QuotaExceededError');
+      jest.spyOn(storage, 'getItem').mockImplementation(() => {
+        throw error;
+      });
+      jest.spyOn(storage, 'setItem').mockImplementation(() => {
+        throw error;
+      });
+      jest.spyOn(storage, 'removeItem').mockImplementation(() => {
+        throw error;
+      });
+      const form = createForm({ persist: { key: 'draft', storage } });
+      expect(() => form.fields.name.onChange('Freddy')).not.toThrow();
+      expect(form.model.name).toEqual('Freddy');
+      expect(() => form.fields.name.onChange('')).not.toThrow();
+      await form.submit();
+      expect(form.submissionStatus).toEqual('submitted');
+    });
+
+    it('throttles saving', async () => {
+      const storage = memoryStorage();
+      const setItem = jest.spyOn(storage, 'setItem');
+      const form = createForm({
+        persist: { key: 'draft', storage, throttle: 10 },
+      });
+      form.fields.name.onChange('F');
+      form.fields.name.onChange('Fred');
+      expect(setItem).not.toHaveBeenCalled();
+      await wait(20);
+      expect(setItem).toHaveBeenCalledTimes(1);
+      expect(
+        createForm({ persist: { key: 'draft', storage } }).model.name
+      ).toEqual('Fred');
+    });
+  });
+
+  describe('reinitializing', () => {
+    it('replaces the original model', () => {
+      const form = createForm({ validations: { name: 'required' } });
+      form.fields.name.onChange('Freddy');
+      form.fields.name.onBlur();
+      form.reinitialize({
+        ...defaultValue,
+        name: 'Jason',
+        address: { streetName: 'Elm Street' },
+        hobbies: [{ name: 'chess' }],
+      });
+      expect(form.model.name).toEqual('Jason');
+      expect(form.fields.address.fields.streetName.value).toEqual('Elm Street');
+      expect(form.fields.hobbies.elements[0].value).toEqual({ name: 'chess' });
+      expect(form.dirty).toEqual(false);
+      expect(form.fields.name.touched).toEqual(false);
+      expect(form.valid).toEqual(true);
+      form.fields.address.fields.streetName.onChange('Crystal Lake');
+      form.reset();
+      expect(form.model.address.streetName).toEqual('Elm Street');
+    });
+
+    it('keeps the changes of the user', () => {
+      const form = createForm();
+      form.fields.name.onChange('Freddy');
+      form.fields.address.fields.streetName.onChange('Elm Street');
+      form.reinitialize(
+        {
+          ...defaultValue,
+          name: 'Jason',
+          age: 30,
+          address: { streetName: 'Crystal Lake', streetNumber: 13 },
+        },
+        { keepDirty: true }
+      );
+      expect(form.model).toEqual({
+        ...defaultValue,
+        name: 'Freddy',
+        age: 30,
+        address: { streetName: 'Elm Street', streetNumber: 13 },
+      });
+      expect(form.changes).toEqual({
+        name: 'Freddy',
+        address: { streetName: 'Elm Street', streetNumber: 13 },
+      });
+      expect(form.fields.age.dirty).toEqual(false);
+      form.reset();
+      expect(form.model.name).toEqual('Jason');
+    });
+
+    it('replaces unchanged fields with missing values', () => {
+      const form = createForm({ value: { description: 'Bob' } });
+      form.fields.name.onChange('Freddy');
+      form.reinitialize(
+        { ...defaultValue, name: 'Jason', description: undefined },
+        { keepDirty: true }
+      );
+      expect(form.model.description).toEqual(undefined);
+      expect(form.fields.description.dirty).toEqual(false);
+      expect(form.changes).toEqual({ name: 'Freddy' });
+    });
+
+    it('compares changed elements to the new elements', () => {
+      const form = createForm({ value: { hobbies: [{ name: 'chess' }] } });
+      form.fields.hobbies.add({ name: 'go' });
+      form.reinitialize(
+        { ...defaultValue, hobbies: [{ name: 'chess' }, { name: 'tennis' }] },
+        { keepDirty: true }
+      );
+      expect(form.model.hobbies).toEqual([{ name: 'chess' }, { name: 'go' }]);
+      expect(form.patch).toEqual([
+        { op: 'replace', path: '/hobbies/1/name', value: 'go' },
+      ]);
+      form.reset();
+      expect(form.model.hobbies).toEqual([
+        { name: 'chess' },
+        { name: 'tennis' },
+      ]);
+      expect(form.patch).toEqual([]);
+    });
+
+    it('clears the history', () => {
+      const form = createForm({ history: true });
+      form.fields.name.onChange('Freddy');
+      form.reinitialize({ ...defaultValue, name: 'Jason' });
+      expect(form.canUndo).toEqual(false);
     });
   });
 
@@ -379,17 +2071,16 @@ describe(Form, () => {
       const form = createForm({
         value: {
           emails: ['bye@example.com', 'stay@example.com'],
-        }
+        },
       });
       form.fields.name.onChange('hello');
-      form.fields.emails.onChange([
-        'hello@example.com', 'stay@example.com'
-      ]);
+      form.fields.emails.onChange(['hello@example.com', 'stay@example.com']);
       form.reset();
       expect(form.changes).toEqual({});
       expect(form.fields.name.value).toEqual('');
       expect(form.fields.emails.value).toEqual([
-        'bye@example.com', 'stay@example.com'
+        'bye@example.com',
+        'stay@example.com',
       ]);
     });
 
@@ -410,6 +2101,75 @@ describe(Form, () => {
       expect(form.error).toBeUndefined();
     });
 
+    it('resets to a new model', () => {
+      const form = createForm();
+      form.fields.name.onChange('Freddy');
+      form.fields.name.onBlur();
+      form.reset({
+        ...defaultValue,
+        name: 'Jason',
+        hobbies: [{ name: 'chess' }],
+      });
+      expect(form.model.name).toEqual('Jason');
+      expect(form.fields.hobbies.elements.length).toEqual(1);
+      expect(form.dirty).toEqual(false);
+      expect(form.fields.name.touched).toEqual(false);
+      form.fields.name.onChange('Freddy');
+      form.reset();
+      expect(form.model.name).toEqual('Jason');
+    });
+
+    it('commits the current model', () => {
+      const form = createForm({ value: { hobbies: [{ name: 'chess' }] } });
+      form.fields.name.onChange('Freddy');
+      form.fields.hobbies.elements[0].fields.name.onChange('golf');
+      form.commit();
+      expect(form.dirty).toEqual(false);
+      expect(form.changes).toEqual({});
+      form.fields.age.onChange(30);
+      expect(form.changes).toEqual({ age: 30 });
+      form.reset();
+      expect(form.model.name).toEqual('Freddy');
+      expect(form.model.hobbies).toEqual([{ name: 'golf' }]);
+    });
+
+    it('commits a single field', () => {
+      const form = createForm({ value: { hobbies: [{ name: 'chess' }] } });
+      form.fields.name.onChange('Freddy');
+      form.fields.age.onChange(30);
+      form.fields.hobbies.elements[0].fields.name.onChange('golf');
+      form.fields.name.commit();
+      form.fields.hobbies.elements[0].commit();
+      expect(form.fields.name.dirty).toEqual(false);
+      expect(form.fields.hobbies.dirty).toEqual(false);
+      expect(form.changes).toEqual({ age: 30 });
+      form.fields.address.fields.streetName.onChange('Elm Street');
+      form.fields.address.fields.streetName.reset('Crystal Lake');
+      expect(form.fields.address.dirty).toEqual(false);
+      expect(form.changes).toEqual({ age: 30 });
+    });
+
+    it('resets to the submitted model', async () => {
+      const form = createForm({ resetOnSubmit: true });
+      form.fields.name.onChange('Freddy');
+      await form.submit();
+      expect(form.submissionStatus).toEqual('submitted');
+      expect(form.dirty).toEqual(false);
+      expect(form.model.name).toEqual('Freddy');
+    });
+
+    it('resets to the model returned by onSubmit', async () => {
+      const form = createForm({
+        resetOnSubmit: true,
+        onSubmit: async ({ model }) => ({ ...model, description: 'saved' }),
+      });
+      form.fields.name.onChange('Freddy');
+      await form.submit();
+      expect(form.dirty).toEqual(false);
+      expect(form.model.description).toEqual('saved');
+      expect(form.fields.name.touched).toEqual(false);
+    });
+
     it('resets valid and dirty fields', () => {
       const form = createForm({
         validations: { name: 'required' },
@@ -517,6 +2277,138 @@ describe(Form, () => {
         expect(emails.touched).toEqual(true);
       });
     });
+    describe('reordering', () => {
+      it('inserts and prepends elements', () => {
+        const form = createForm({
+          value: { emails: ['a', 'c'] },
+        });
+        const emails = form.fields.emails;
+        emails.elements[0].onBlur();
+        emails.insert(1, 'b');
+        emails.prepend('start');
+        expect(emails.value).toEqual(['start', 'a', 'b', 'c']);
+        expect(form.model.emails).toEqual(['start', 'a', 'b', 'c']);
+        expect(emails.elements.map((e) => e.value)).toEqual([
+          'start',
+          'a',
+          'b',
+          'c',
+        ]);
+        expect(emails.elements.map((e) => e.touched)).toEqual([
+          false,
+          true,
+          false,
+          false,
+        ]);
+      });
+
+      it('moves elements with their state', () => {
+        const form = createForm({
+          value: { emails: ['a', 'b', ''] },
+          validations: { emails: each('required') },
+        });
+        const emails = form.fields.emails;
+        const empty = emails.elements[2];
+        empty.onBlur();
+        emails.move(2, 0);
+        expect(emails.value).toEqual(['', 'a', 'b']);
+        expect(emails.elements[0]).toBe(empty);
+        expect(emails.elements[0].touched).toEqual(true);
+        expect(emails.elements[0].errors).toEqual(['required-field']);
+        expect(form.errorsAt('emails.0')).toEqual(['required-field']);
+        emails.elements[0].onChange('c');
+        expect(form.model.emails).toEqual(['c', 'a', 'b']);
+        expect(form.valid).toEqual(true);
+      });
+
+      it('swaps elements', () => {
+        const form = createForm({
+          value: { emails: ['a', 'b', 'c'] },
+        });
+        const emails = form.fields.emails;
+        const [a, , c] = emails.elements;
+        emails.swap(0, 2);
+        expect(emails.value).toEqual(['c', 'b', 'a']);
+        expect(emails.elements[0]).toBe(c);
+        expect(emails.elements[2]).toBe(a);
+        emails.elements[2].remove();
+        expect(emails.value).toEqual(['c', 'b']);
+      });
+
+      it('rejects indexes out of range without changing the elements', () => {
+        const form = createForm({
+          value: { emails: ['a', 'b'] },
+        });
+        const emails = form.fields.emails;
+        expect(() => emails.swap(0, 5)).toThrow(RangeError);
+        expect(() => emails.move(2, 0)).toThrow(
+          'The index 2 is out of range for emails'
+        );
+        expect(() => emails.insert(-1, 'c')).toThrow(RangeError);
+        expect(emails.value).toEqual(['a', 'b']);
+        expect(emails.elements.map((e) => e.value)).toEqual(['a', 'b']);
+        expect(form.valid).toEqual(true);
+        emails.insert(2, 'c');
+        expect(form.model.emails).toEqual(['a', 'b', 'c']);
+      });
+
+      it('replaces and clears elements', () => {
+        const form = createForm({
+          value: { emails: ['a', 'b'] },
+        });
+        const emails = form.fields.emails;
+        emails.replace(['c']);
+        expect(emails.elements.map((e) => e.value)).toEqual(['c']);
+        emails.clear();
+        expect(emails.value).toEqual([]);
+        expect(emails.elements).toEqual([]);
+        expect(form.model.emails).toEqual([]);
+        expect(emails.dirty).toEqual(true);
+      });
+    });
+    describe('keys', () => {
+      it('keeps the keys of moved and removed elements', () => {
+        const form = createForm({
+          value: { emails: ['a', 'b', 'c'] },
+        });
+        const emails = form.fields.emails;
+        const [a, b, c] = emails.elements.map((e) => e.key);
+        expect(new Set([a, b, c]).size).toEqual(3);
+        emails.move(0, 2);
+        emails.elements[0].remove();
+        emails.prepend('d');
+        expect(emails.elements.map((e) => e.key)).toEqual([
+          emails.elements[0].key,
+          c,
+          a,
+        ]);
+        expect([a, b, c]).not.toContain(emails.elements[0].key);
+      });
+
+      it('keeps the keys when mass updating and resetting', () => {
+        const form = createForm({
+          value: { emails: ['a', 'b'] },
+        });
+        const emails = form.fields.emails;
+        const keys = emails.elements.map((e) => e.key);
+        emails.onChange(['c', 'd', 'e']);
+        expect(emails.elements.map((e) => e.key).slice(0, 2)).toEqual(keys);
+        emails.swap(0, 1);
+        form.reset();
+        expect(emails.elements.map((e) => e.key)).toEqual(keys);
+      });
+
+      it('uses the keys of the values', () => {
+        const form = createForm({
+          value: { hobbies: [{ name: 'chess' }, { name: 'go' }] },
+          keyBy: 'name',
+        });
+        const hobbies = form.fields.hobbies;
+        expect(hobbies.elements.map((e) => e.key)).toEqual(['chess', 'go']);
+        hobbies.onChange([{ name: 'go' }, { name: 'chess' }]);
+        expect(hobbies.elements.map((e) => e.key)).toEqual(['go', 'chess']);
+      });
+    });
     describe('deleting', () => {
       // DELETE
       it('removes a field', () => {
@@ -547,6 +2439,54 @@ describe(Form, () => {
         expect(emails.elements[1].valid).toEqual(false);
         expect(emails.valid).toEqual(false);
       });
+      it('validates the array and its elements separately', () => {
+        const form = createForm({
+          value: { emails: ['test@example.com'] },
+          validations: {
+            emails: [
+              'required',
+              'email',
+              minItems(2),
+              each(({ value }) => (value.endsWith('.org') ? ['no-org'] : [])),
+            ],
+          },
+        });
+        const emails = form.fields.emails;
+        expect(emails.required).toEqual(true);
+        expect(emails.errors).toEqual(['too-few-items']);
+        expect(emails.elements[0].errors).toEqual([]);
+        expect(emails.elements[0].required).toEqual(false);
+        emails.add('test');
+        emails.add('test@example.org');
+        expect(emails.errors).toEqual([]);
+        expect(emails.elements[1].errors).toEqual(['invalid-email-address']);
+        expect(emails.elements[2].errors).toEqual(['no-org']);
+        emails.clear();
+        expect(emails.errors).toEqual(['required-field', 'too-few-items']);
+      });
+      it('validates the fields of object elements', () => {
+        const form = createForm({
+          value: { hobbies: [{ name: 'chess' }] },
+          validations: { hobbies: { name: ['required', minLength(3)] } },
+        });
+        const hobbies = form.fields.hobbies;
+        expect(hobbies.valid).toEqual(true);
+        hobbies.add({ name: 'go' });
+        expect(hobbies.errors).toEqual([]);
+        expect(hobbies.elements[1].fields.name.errors).toEqual(['too-short']);
+        expect(hobbies.valid).toEqual(false);
+      });
+      it('has no fields for primitive elements', () => {
+        const form = createForm({
+          value: { emails: [''] },
+        });
+        const element = form.fields.emails.elements[0];
+        // @ts-expect-error primitive elements have no fields
+        expect(() => element.fields).toThrow(
+          'The field emails.0 contains a string and has no fields'
+        );
+        expect(element.value).toEqual('');
+      });
       it('has the correct value', () => {
         const form = createForm({
           value: { emails: ['google.com', 'facebook.com'] },
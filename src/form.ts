@@ -1,47 +1,244 @@
-import { MappedValidation } from './validation';
-import { Field, FieldImplementation, MappedFields } from './field';
+import {
+  MappedValidation,
+  toValidationError,
+  ValidationError,
+} from './validation';
+import {
+  Field,
+  FieldImplementation,
+  FieldOf,
+  MappedFields,
+  ValidationTrigger,
+} from './field';
+import {
+  ErrorMap,
+  JsonApiErrorDocument,
+  normalizeErrors,
+  SubmitError,
+} from './errors';
+import { Resolver, SchemaIssue } from './schema';
+import { ErrorMessages, formatError, MessageOptions } from './messages';
+import { Path, PathValue } from './path';
+import { History, HistoryOptions } from './history';
+import {
+  clearDraft,
+  Draft,
+  loadDraft,
+  PersistOptions,
+  saveDraft,
+} from './persistence';
+import { BindOptions, BoundProps, FieldElement } from './bind';
+import { ComputedField, ComputedFields, isOverridden } from './computed';
+import { PatchOperation } from './patch';
+import { MappedTransformers } from './transformers';
+import { isEqual, isPlainObject, overlaps, parsePath, valueAt } from './util';
 
 export type SubmissionStatus = 'submitting' | 'error' | 'submitted' | 'idle';
 
+// Defines when a field is validated:
+// - always: on initialization and on every change of any field
+// - onChange: whenever the field changes
+// - onBlur: whenever the field loses focus
+// - onTouched: on the first blur, then on every change
+// - onSubmit: only when submitting the form
+export type ValidationMode =
+  | 'always'
+  | 'onChange'
+  | 'onBlur'
+  | 'onTouched'
+  | 'onSubmit';
+
+// Defines when a field is validated again after the form has been submitted.
+// This does not apply to the `always` mode.
+export type ReValidationMode = 'onChange' | 'onBlur' | 'onSubmit';
+
+// Defines which values `changes` contains for changed objects:
+// - shallow: the whole value of every changed top level field
+// - deep: only the changed properties of nested objects, arrays are still included as a whole
+export type ChangesMode = 'shallow' | 'deep';
+
+// An invalid field, e.g. to link to it from a summary of the errors
+export interface ErrorSummaryItem {
+  path: string;
+  id: string;
+  errorId: string;
+  errors: string[];
+}
+
 export class Form<T> {
   error: Error | undefined;
   submissionStatus: SubmissionStatus = 'idle';
-  onSubmit?: (form: Form<T>) => void | Promise<void>;
+  onSubmit?: (form: Form<T>) => void | T | Promise<void | T>;
   onSubmitError: ((error: Error) => void) | undefined;
 
   #validations: MappedValidation<T>;
   #onUpdate?: () => void;
   #field: FieldImplementation<T, T>;
+  #mode: ValidationMode;
+  #reValidateMode: ReValidationMode;
+  #submitted = false;
+  #triggeredFields = new Set<FieldImplementation<unknown, T>>();
+  #changedFields = new Set<FieldImplementation<unknown, T>>();
+  // changed fields which have been reset, they don't touch the fields depending on them
+  #resetFields = new Set<FieldImplementation<unknown, T>>();
+  #resolver?: Resolver<T>;
+  #schemaErrors: Record<string, string[]> = {};
+  #schemaValidation?: AbortController;
+  #pendingSchemaValidation?: Promise<void>;
+  #messages: MessageOptions;
+  #listeners = new Set<() => void>();
+  // errors set from the outside which don't belong to a field
+  #formErrors: ValidationError[] = [];
+  #history?: History<T>;
+  // set while several fields are changed at once, so the history records a single step
+  #batching = false;
+  #persist?: PersistOptions;
+  #saveTimeout?: ReturnType<typeof setTimeout>;
+  #resetOnSubmit: boolean;
+  #changesMode: ChangesMode;
+  #focusInvalid: boolean;
+  #computed: Array<[string[], ComputedField<T, unknown>]>;
+  // the last value computed for each computed field, to detect if the user changed an editable one
+  #computedValues = new Map<string, unknown>();
+  // set while computed fields are updated, their changes are handled by the update computing them
+  #computing = false;
 
   constructor({
     model,
     onUpdate,
     validations,
+    mode,
+    reValidateMode,
+    messages,
+    translate,
+    keyBy,
+    history,
+    persist,
+    resetOnSubmit,
+    changesMode,
+    transformers,
+    id,
+    focusFirstInvalid,
+    computed,
     onSubmit,
     onSubmitError,
   }: {
     model: T;
-    validations?: MappedValidation<T>;
+    // either validations for every field or a resolver validating the whole model
+    validations?: MappedValidation<T> | Resolver<T>;
+    mode?: ValidationMode;
+    reValidateMode?: ReValidationMode;
+    // messages for the error codes, e.g. `{ 'too-short': 'At least {min} characters' }`
+    messages?: ErrorMessages;
+    translate?: MessageOptions['translate'];
+    // identifies the elements of FieldSets by a property (e.g. `id`) or function, so they keep their keys
+    keyBy?: string | ((element: unknown) => unknown);
+    // records the changes so they can be undone
+    history?: boolean | HistoryOptions;
+    // saves drafts of the model, which are restored when the form is created again
+    persist?: PersistOptions;
+    // makes the submitted model (or the model returned by onSubmit) the original model after a successful submit
+    resetOnSubmit?: boolean;
+    changesMode?: ChangesMode;
+    // converts between the values of inputs and the model, e.g. `{ age: numberFormat() }`
+    transformers?: MappedTransformers<T>;
+    // prefixes the ids of the fields, defaults to a generated id
+    id?: string;
+    // focuses the first invalid field (with a registered element) when submitting fails, defaults to true
+    focusFirstInvalid?: boolean;
+    // values derived from other fields, e.g. `{ total: { compute: (model) => ..., deps: ['items'] } }`
+    computed?: ComputedFields<T>;
     onUpdate?: () => void;
-    onSubmit?: (form: Form<T>) => void | Promise<void>;
+    onSubmit?: (form: Form<T>) => void | T | Promise<void | T>;
     onSubmitError?: (error: Error) => void;
   }) {
-    this.#validations = validations ?? {};
+    if (typeof validations === 'function') {
+      this.#resolver = validations;
+      this.#validations = {};
+    } else {
+      this.#validations = validations ?? {};
+    }
+    this.#messages = { messages, translate };
+    this.#mode = mode ?? 'always';
+    this.#reValidateMode = reValidateMode ?? 'onChange';
+    this.#resetOnSubmit = resetOnSubmit ?? false;
+    this.#changesMode = changesMode ?? 'shallow';
+    this.#focusInvalid = focusFirstInvalid ?? true;
+    this.#computed = Object.entries(computed ?? {}).map(([path, field]) => [
+      parsePath(path),
+      field as ComputedField<T, unknown>,
+    ]);
     this.#field = new FieldImplementation<T, T>({
       value: model,
       onUpdate: this.onUpdate.bind(this),
       validations: this.#validations,
-      getModel: () => this.model,
+      transformers,
+      context: {
+        getModel: () => this.model,
+        onValidate: () => this.notify(),
+        onTrigger: this.onTrigger.bind(this),
+        subscribe: this.subscribe.bind(this),
+        getSchemaErrors: this.#resolver
+          ? (path) => this.#schemaErrors[path.join('.')] ?? []
+          : undefined,
+        formatError: (error) => formatError(error, this.#messages),
+        formId: id ?? generateFormId(),
+        keyOf: keyBy ? (element) => keyOf(element, keyBy) : undefined,
+        isReadOnly: (path) =>
+          this.#computed.some(
+            ([e, { editable }]) => !editable && isEqual(e, path)
+          ),
+      },
     });
-    this.validate(); // called before assigning the callbacks so the outside world is not called during initialization
+    this.initializeComputed();
+    const draft = persist && loadDraft<T>(persist);
+    if (draft) {
+      this.restoreDraft(draft);
+    }
+    this.#persist = persist;
+    if (this.#mode === 'always') {
+      this.validate(); // called before assigning the callbacks so the outside world is not called during initialization
+    }
+    if (history) {
+      this.#history = new History(this.model, history === true ? {} : history);
+    }
     this.#onUpdate = onUpdate;
     this.onSubmit = onSubmit;
     this.onSubmitError = onSubmitError;
   }
 
-  // This method will touch every field, for the purpose of displaying the errors in the view
-  touch(): void {
-    this.#field.touch();
+  // This method will touch every field (or only the one at the path), for the purpose of displaying the errors in the view
+  touch(path?: Path<T>): void {
+    if (path === undefined) {
+      this.#field.touch();
+    } else {
+      this.fieldAt(path).touch();
+    }
+  }
+
+  // Returns the field at the path (e.g. `images.2.url`), undefined if there is no such element
+  // or object. Missing objects are not created, so the model stays the same.
+  getField<P extends Path<T>>(path: P): FieldOf<PathValue<T, P>> | undefined {
+    return this.#field.fieldAt(parsePath(path)) as unknown as
+      | FieldOf<PathValue<T, P>>
+      | undefined;
+  }
+
+  getValue<P extends Path<T>>(path: P): PathValue<T, P> {
+    return valueAt(this.model, parsePath(path)) as PathValue<T, P>;
+  }
+
+  setValue<P extends Path<T>>(path: P, value: PathValue<T, P>): void {
+    this.fieldAt(path).onChange(value);
+  }
+
+  // Props for the native element of the field at the path, e.g. `<input {...form.register('name')} />`
+  register(path: Path<T>, options?: BindOptions): BoundProps {
+    return this.fieldAt(path).bind(options);
+  }
+
+  errorsAt(path: Path<T>): string[] {
+    return this.getField(path)?.errors ?? [];
   }
 
   // onSubmit method is a wrapper around the handleSubmit param passed to the constructor.
@@ -49,23 +246,49 @@ export class Form<T> {
   async submit(e?: { preventDefault: () => void }): Promise<void> {
     e?.preventDefault();
 
+    this.#submitted = true;
+    // the server decides again about its errors
+    this.clearErrors();
     this.touch();
+    if (this.#mode !== 'always') {
+      this.validate();
+    }
+    if (this.validating) {
+      await this.waitForValidation();
+    }
     if (!this.#field.valid) {
-      this.#onUpdate?.();
+      if (this.#focusInvalid) {
+        this.focusFirstInvalid();
+      }
+      this.notify();
       return;
     }
     this.submissionStatus = 'submitting';
-    this.#onUpdate?.();
+    this.notify();
     if (this.onSubmit) {
       try {
-        await this.onSubmit(this);
+        const model = await this.onSubmit(this);
+        this.discardDraft();
+        if (this.#resetOnSubmit) {
+          if (model === undefined) {
+            this.commit();
+          } else {
+            this.reset(model as T);
+          }
+        }
         this.submissionStatus = 'submitted';
-        this.#onUpdate?.();
+        this.notify();
       } catch (error: unknown) {
         if (error instanceof Error) {
+          if (error instanceof SubmitError) {
+            this.setErrors(error.errors);
+            if (this.#focusInvalid) {
+              this.focusFirstInvalid();
+            }
+          }
           this.error = error;
           this.submissionStatus = 'error';
-          this.#onUpdate?.();
+          this.notify();
           if (this.onSubmitError) {
             this.onSubmitError(error);
           } else {
@@ -73,12 +296,85 @@ export class Form<T> {
           }
         }
       }
+    } else {
+      this.discardDraft();
+    }
+  }
+
+  // Focuses the element of the first invalid field in the order of the document,
+  // returns false if no invalid field has a registered element
+  focusFirstInvalid(): boolean {
+    const element = this.invalidFields().find((e) => e.element)?.element;
+    element?.focus();
+    return !!element;
+  }
+
+  // The invalid fields with their errors in the order of the document, e.g. for a summary
+  // linking to the fields. Fields without registered elements follow in the order of the model.
+  get errorSummary(): ErrorSummaryItem[] {
+    return this.invalidFields().map((field) => ({
+      path: field.path.join('.'),
+      id: field.id,
+      errorId: field.errorId,
+      errors: field.errors,
+    }));
+  }
+
+  // Reset function will clear the value of every field. A given model (e.g. returned by the server)
+  // becomes the new original model.
+  reset(model?: T): void {
+    this.#submitted = false;
+    this.#formErrors = [];
+    this.batch(() => {
+      this.#field.reset(model);
+      if (model !== undefined) {
+        this.initializeComputed();
+      }
+    });
+  }
+
+  // Makes the current model the original model, so the form is no longer dirty
+  commit(): void {
+    this.batch(() => this.#field.commit());
+  }
+
+  // Replaces the original model, e.g. when the record has been loaded again. Afterwards the form
+  // is no longer dirty, unless `keepDirty` keeps the values of the fields changed by the user.
+  reinitialize(
+    model: T,
+    { keepDirty = false }: { keepDirty?: boolean } = {}
+  ): void {
+    if (!keepDirty) {
+      this.#submitted = false;
+    }
+    this.batch(() => {
+      this.#field.reinitialize(model, keepDirty);
+      this.initializeComputed();
+      this.#history?.clear(this.model);
+    });
+  }
+
+  // Reverts the last change, only available with the `history` option
+  undo(): void {
+    const model = this.#history?.undo();
+    if (model) {
+      this.batch(() => this.#field.onChange(model));
+    }
+  }
+
+  redo(): void {
+    const model = this.#history?.redo();
+    if (model) {
+      this.batch(() => this.#field.onChange(model));
     }
   }
 
-  // Reset function will clear the value of every field
-  reset(): void {
-    this.#field.reset();
+  get canUndo(): boolean {
+    return !!this.#history?.canUndo;
+  }
+
+  get canRedo(): boolean {
+    return !!this.#history?.canRedo;
   }
 
   // Reset function to reset error state
@@ -89,21 +385,70 @@ export class Form<T> {
     }
   }
 
+  // Displays errors (e.g. returned by the server) on the fields matching their paths, errors of missing
+  // nested objects on the closest existing field. Errors without a path or of unknown fields (e.g. `base`)
+  // are form errors. Previously set errors are cleared, each error of a field is removed as soon as the
+  // field changes, all of them when submitting again.
+  setErrors(errors: ErrorMap | JsonApiErrorDocument): void {
+    this.clearErrors();
+    Object.entries(normalizeErrors(errors)).forEach(([path, messages]) => {
+      const field = this.#field.closestFieldAt(parsePath(path), true);
+      if (field === this.#field) {
+        this.#formErrors.push(...messages.map(toValidationError));
+      } else {
+        field.setErrors(messages);
+      }
+    });
+    this.notify();
+  }
+
+  // The errors set from the outside which don't belong to a field
+  get formErrors(): string[] {
+    return this.#formErrors.map((error) => formatError(error, this.#messages));
+  }
+
+  // Changes the messages used to format the errors, e.g. when switching the language
+  setMessages({ messages, translate }: MessageOptions): void {
+    if (
+      messages === this.#messages.messages &&
+      translate === this.#messages.translate
+    ) {
+      return;
+    }
+    this.#messages = { messages, translate };
+    this.#field.updateMessages();
+  }
+
+  // Calls the listener after every update of the form, returns a function to unsubscribe
+  subscribe(listener: () => void): () => void {
+    this.#listeners.add(listener);
+    return () => {
+      this.#listeners.delete(listener);
+    };
+  }
+
   // Mass update method.
   updateFields(model: Partial<T>): void {
-    Object.keys(model).forEach((key) => {
-      const field: Field<unknown> = this.fields[key];
-      field.onChange(model[key]);
+    this.batch(() => {
+      Object.keys(model).forEach((key) => {
+        const field: Field<unknown> = this.fields[key];
+        field.onChange(model[key]);
+      });
     });
-    this.onUpdate();
   }
 
   validate(): void {
+    this.validateSchema();
     this.#field.validate();
   }
 
   // The changes object contains only the keys of fields which are dirty (value !== originalValue)
   get changes(): Partial<T> {
+    if (this.#changesMode === 'deep') {
+      return deepChanges(
+        this.fields as unknown as MappedFields<Record<string, unknown>>
+      ) as Partial<T>;
+    }
     const changes: Partial<T> = {};
 
     for (const key in this.fields) {
@@ -117,6 +462,11 @@ export class Form<T> {
     return changes;
   }
 
+  // The changes as JSON Patch operations, e.g. for a PATCH request
+  get patch(): PatchOperation[] {
+    return this.#field.patch();
+  }
+
   // The exposed updated model contains both the original model and the changes object on top
   get model(): T {
     return this.#field.value;
@@ -130,18 +480,345 @@ export class Form<T> {
     return this.#field.valid;
   }
 
+  // True as long as any async validation is still running
+  get validating(): boolean {
+    return !!this.#pendingSchemaValidation || this.#field.validating;
+  }
+
   get fields(): MappedFields<T> {
     return this.#field.fields;
   }
 
+  // Creates missing objects on the way, so the field can be changed or bound
+  private fieldAt(path: string): FieldImplementation<unknown, T> {
+    const field = this.#field.fieldAt(parsePath(path), true);
+    if (!field) {
+      throw new Error(`There is no field at ${path}`);
+    }
+    return field;
+  }
+
+  private clearErrors(): void {
+    this.#formErrors = [];
+    this.#field.clearErrors();
+  }
+
+  private invalidFields(): Array<FieldImplementation<unknown, T>> {
+    const fields = this.#field.invalidFields();
+    const positioned = fields.filter((e) => e.element);
+    positioned.sort((a, b) =>
+      (a.element as FieldElement).compareDocumentPosition(
+        b.element as unknown as Node
+      ) & DOCUMENT_POSITION_FOLLOWING
+        ? -1
+        : 1
+    );
+    return [...positioned, ...fields.filter((e) => !e.element)];
+  }
+
+  // Computes the values of the computed fields, which become their original values.
+  // Editable fields keep values which differ from the computed ones.
+  private initializeComputed(): void {
+    this.#computed.forEach(([path, { compute, editable }]) => {
+      const field = this.#field.fieldAt(path, true);
+      if (!field) {
+        return;
+      }
+      const value = compute(this.model);
+      this.#computedValues.set(path.join('.'), value);
+      if (!editable || !isOverridden(field.value, value)) {
+        field.reset(value);
+      }
+    });
+  }
+
+  // Computes the values of the computed fields depending on the changed fields again.
+  // Computed fields are changed like any other field, so they are validated as well.
+  private updateComputed(): void {
+    this.#computing = true;
+    try {
+      this.#computed.forEach(([path, { compute, deps, editable }]) => {
+        const field = this.#field.fieldAt(path, true);
+        const changes = [...this.#changedFields].map((e) => e.path);
+        const changed = deps
+          ? deps.some((dep) => changes.some((e) => overlaps(e, parsePath(dep))))
+          : changes.some((e) => !isEqual(e, path));
+        // changes of read-only fields are replaced by the computed value
+        const changedItself =
+          !editable && changes.some((e) => isEqual(e, path));
+        if (!field || (!changed && !changedItself)) {
+          return;
+        }
+        const key = path.join('.');
+        if (
+          editable &&
+          isOverridden(field.value, this.#computedValues.get(key))
+        ) {
+          return;
+        }
+        const value = compute(this.model);
+        this.#computedValues.set(key, value);
+        if (!isEqual(value, field.value)) {
+          field.onChange(value);
+        }
+      });
+    } finally {
+      this.#computing = false;
+    }
+  }
+
+  private restoreDraft({ model, touched }: Draft<T>): void {
+    this.batch(() => {
+      this.#field.onChange(model);
+      touched.forEach((path) => {
+        const field = this.#field.fieldAt(path);
+        if (field) {
+          field.touched = true;
+        }
+      });
+    });
+  }
+
+  // Saves the draft after the throttle time, unchanged forms don't need a draft
+  private scheduleSave(): void {
+    const persist = this.#persist;
+    if (!persist || this.#saveTimeout) {
+      return;
+    }
+    const save = (): void => {
+      this.#saveTimeout = undefined;
+      if (this.dirty) {
+        saveDraft(persist, {
+          model: this.model,
+          touched: this.#field.touchedPaths(),
+        });
+      } else {
+        clearDraft(persist);
+      }
+    };
+    if (persist.throttle) {
+      this.#saveTimeout = setTimeout(save, persist.throttle);
+    } else {
+      save();
+    }
+  }
+
+  private discardDraft(): void {
+    if (this.#saveTimeout) {
+      clearTimeout(this.#saveTimeout);
+      this.#saveTimeout = undefined;
+    }
+    if (this.#persist) {
+      clearDraft(this.#persist);
+    }
+  }
+
+  // Changes several fields, which are recorded as a single step in the history
+  private batch(update: () => void): void {
+    this.#batching = true;
+    try {
+      update();
+    } finally {
+      this.#batching = false;
+    }
+    this.onUpdate();
+  }
+
+  private notify(): void {
+    this.#onUpdate?.();
+    this.#listeners.forEach((listener) => listener());
+  }
+
+  private async waitForValidation(): Promise<void> {
+    while (this.#pendingSchemaValidation) {
+      await this.#pendingSchemaValidation;
+    }
+    await this.#field.waitForValidation();
+  }
+
+  // Runs the resolver (if there is one), its issues are picked up by the fields once they are validated
+  private validateSchema(): void {
+    const resolver = this.#resolver;
+    if (!resolver) {
+      return;
+    }
+    this.#schemaValidation?.abort();
+    const validation = new AbortController();
+    this.#schemaValidation = validation;
+    const result = resolver(this.model, { signal: validation.signal });
+    if (result instanceof Promise) {
+      this.#pendingSchemaValidation = result
+        .catch((): SchemaIssue[] => [
+          { path: [], message: 'validation-failed' },
+        ])
+        .then((issues) => {
+          // a newer validation has been started in the meantime
+          if (this.#schemaValidation !== validation) return;
+          this.#pendingSchemaValidation = undefined;
+          this.setSchemaIssues(issues);
+          this.#field.validateDependents(new Set(), (field) =>
+            shouldValidate(this.currentMode, 'change', field.touched)
+          );
+          this.notify();
+        });
+    } else {
+      this.#pendingSchemaValidation = undefined;
+      this.setSchemaIssues(result);
+    }
+  }
+
+  // Issues are assigned to the closest existing field, so errors of missing nested objects are not lost
+  private setSchemaIssues(issues: SchemaIssue[]): void {
+    const errors: Record<string, string[]> = {};
+    const fields = issues.map(({ path, message }) => {
+      const field = this.#field.closestFieldAt(
+        typeof path === 'string' ? parsePath(path) : path.map(String)
+      );
+      const key = field.path.join('.');
+      errors[key] = [...(errors[key] ?? []), message];
+      return field;
+    });
+    this.#schemaErrors = errors;
+    if (this.#mode === 'always') {
+      // fields might have been created for the issues
+      fields.forEach((e) => e.validate());
+    }
+  }
+
+  private get currentMode(): ValidationMode {
+    return this.#submitted && this.#mode !== 'always'
+      ? this.#reValidateMode
+      : this.#mode;
+  }
+
+  private onTrigger(
+    field: FieldImplementation<unknown, T>,
+    trigger: ValidationTrigger
+  ): void {
+    if (shouldValidate(this.currentMode, trigger, field.touched)) {
+      this.#triggeredFields.add(field);
+    }
+    if (trigger !== 'blur') {
+      this.#changedFields.add(field);
+    }
+    if (trigger === 'reset') {
+      this.#resetFields.add(field);
+    }
+  }
+
+  // Only the triggered fields, their parents and fields depending on changed fields are validated again
   private onUpdate(): void {
-    this.validate();
+    if (this.#computing) {
+      return;
+    }
+    if (this.#changedFields.size) {
+      this.updateComputed();
+    }
+    const triggeredFields = this.#triggeredFields;
+    const changedFields = this.#changedFields;
+    const resetFields = this.#resetFields;
+    this.#triggeredFields = new Set();
+    this.#changedFields = new Set();
+    this.#resetFields = new Set();
+    if (this.#resolver && (triggeredFields.size || changedFields.size)) {
+      this.validateSchema();
+    }
+    triggeredFields.forEach((e) => {
+      e.validate();
+      e.validateParents();
+    });
+    if (changedFields.size) {
+      this.#field.validateDependents(
+        changedFields,
+        (field) => shouldValidate(this.currentMode, 'change', field.touched),
+        [...changedFields].filter((e) => !resetFields.has(e)).map((e) => e.path)
+      );
+    }
+    if (this.#history && !this.#batching) {
+      this.#history.record(this.model, historyKey(changedFields));
+    }
+    this.scheduleSave();
     if (
       this.submissionStatus === 'error' ||
       this.submissionStatus === 'submitted'
     ) {
       this.submissionStatus = 'idle';
     }
-    this.#onUpdate?.();
+    this.notify();
+  }
+}
+
+// Only changes of the same fields containing primitive values (e.g. typing) are merged in the
+// history, adding elements to a FieldSet or mass updates are separate steps.
+function historyKey<T>(
+  fields: Set<FieldImplementation<unknown, T>>
+): string | undefined {
+  const changes = [...fields];
+  if (
+    !changes.length ||
+    changes.some((e) => e.value && typeof e.value === 'object')
+  ) {
+    return undefined;
+  }
+  return changes
+    .map((e) => e.path.join('.'))
+    .sort()
+    .join(',');
+}
+
+// Node.DOCUMENT_POSITION_FOLLOWING, Node is not available outside of browsers
+const DOCUMENT_POSITION_FOLLOWING = 4;
+
+let lastFormId = 0;
+
+function generateFormId(): string {
+  lastFormId += 1;
+  return `form-${lastFormId}`;
+}
+
+function deepChanges(
+  fields: MappedFields<Record<string, unknown>>
+): Record<string, unknown> {
+  const changes: Record<string, unknown> = {};
+  for (const key in fields) {
+    const field = fields[key];
+    if (field.dirty) {
+      changes[key] = isPlainObject(field.value)
+        ? deepChanges((field as FieldOf<Record<string, unknown>>).fields)
+        : field.value;
+    }
+  }
+  return changes;
+}
+
+function keyOf(
+  element: unknown,
+  keyBy: string | ((element: unknown) => unknown)
+): string | undefined {
+  const key =
+    typeof keyBy === 'function'
+      ? keyBy(element)
+      : element && typeof element === 'object'
+      ? (element as Record<string, unknown>)[keyBy]
+      : undefined;
+  return key === undefined || key === null ? undefined : String(key);
+}
+
+function shouldValidate(
+  mode: ValidationMode,
+  trigger: ValidationTrigger,
+  touched: boolean
+): boolean {
+  switch (mode) {
+    case 'always':
+      return trigger === 'change' || trigger === 'reset';
+    case 'onChange':
+      return trigger === 'change';
+    case 'onBlur':
+      return trigger === 'blur';
+    case 'onTouched':
+      return trigger === 'blur' || touched;
+    case 'onSubmit':
+      return false;
   }
 }
@@ -0,0 +1,88 @@
+import { deepCopy, isEqual } from './util';
+
+export interface HistoryOptions {
+  // the maximum number of steps which can be undone
+  limit?: number;
+  // changes of the same fields within this time (in milliseconds) are merged into one step
+  coalesce?: number;
+}
+
+// Records the states of a model, so changes can be undone and redone
+export class History<T> {
+  #past: T[] = [];
+  #future: T[] = [];
+  #present: T;
+  #limit: number;
+  #coalesce: number;
+  #lastChange?: { key: string; time: number };
+
+  constructor(value: T, { limit = 100, coalesce = 500 }: HistoryOptions = {}) {
+    this.#present = deepCopy(value);
+    this.#limit = limit;
+    this.#coalesce = coalesce;
+  }
+
+  // The key identifies the changed fields, consecutive changes with the same key are merged
+  record(value: T, key?: string): void {
+    if (isEqual(value, this.#present)) {
+      return;
+    }
+    const time = Date.now();
+    const lastChange = this.#lastChange;
+    this.#lastChange = key === undefined ? undefined : { key, time };
+    this.#future = [];
+    if (
+      key !== undefined &&
+      lastChange?.key === key &&
+      time - lastChange.time < this.#coalesce
+    ) {
+      this.#present = deepCopy(value);
+      return;
+    }
+    this.#past.push(this.#present);
+    if (this.#past.length > this.#limit) {
+      this.#past.shift();
+    }
+    this.#present = deepCopy(value);
+  }
+
+  // Returns the previous state, undefined if there is none
+  undo(): T | undefined {
+    if (!this.canUndo) {
+      return undefined;
+    }
+    this.#future.push(this.#present);
+    return this.restore(this.#past.pop() as T);
+  }
+
+  // Returns the state which has been undone last, undefined if there is none
+  redo(): T | undefined {
+    if (!this.canRedo) {
+      return undefined;
+    }
+    this.#past.push(this.#present);
+    return this.restore(this.#future.pop() as T);
+  }
+
+  get canUndo(): boolean {
+    return this.#past.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.#future.length > 0;
+  }
+
+  // Forgets all steps, e.g. after the form has been reinitialized
+  clear(value: T): void {
+    this.#past = [];
+    this.#future = [];
+    this.#lastChange = undefined;
+    this.#present = deepCopy(value);
+  }
+
+  private restore(value: T): T {
+    this.#present = value;
+    this.#lastChange = undefined;
+    return deepCopy(value);
+  }
+}
@@ -1,30 +1,75 @@
-import { useForceUpdate } from './util';
-import { useRef } from 'react';
-import { Form, SubmissionStatus } from './form';
+import { deepCopy, isEqual, useForceUpdate } from './util';
+import { useContext, useEffect, useRef } from 'react';
+import {
+  ChangesMode,
+  Form,
+  ReValidationMode,
+  SubmissionStatus,
+  ValidationMode,
+} from './form';
 import { MappedValidation } from './validation';
-import { MappedFields } from './field';
+import { Resolver } from './schema';
+import { Field, MappedFields } from './field';
+import { FormMessagesContext, MessageOptions } from './messages';
+import { HistoryOptions } from './history';
+import { PersistOptions } from './persistence';
+import { MappedTransformers } from './transformers';
+import { ComputedFields } from './computed';
 
 export interface UseFormProps<T> {
   model: T;
-  onSubmit?: (form: Form<T>) => void | Promise<void>;
+  onSubmit?: (form: Form<T>) => void | T | Promise<void | T>;
   onSubmitError?: (error: Error) => void;
-  validations?: Partial<MappedValidation<T>>;
+  validations?: Partial<MappedValidation<T>> | Resolver<T>;
+  mode?: ValidationMode;
+  reValidateMode?: ReValidationMode;
+  // defaults to the messages of the closest FormMessagesProvider
+  messages?: MessageOptions['messages'];
+  translate?: MessageOptions['translate'];
+  // set to false to not rerender on every change, use useField and useFormState instead
+  rerender?: boolean;
+  keyBy?: string | ((element: unknown) => unknown);
+  history?: boolean | HistoryOptions;
+  persist?: PersistOptions;
+  // the form is reinitialized when the model changes (compared deeply), or only when the
+  // modelKey changes if there is one (e.g. the id of the record)
+  modelKey?: unknown;
+  // keeps the values of fields changed by the user when reinitializing
+  keepDirty?: boolean;
+  resetOnSubmit?: boolean;
+  changesMode?: ChangesMode;
+  transformers?: MappedTransformers<T>;
+  // prefixes the ids of the fields, pass it when rendering on the server
+  id?: string;
+  focusFirstInvalid?: boolean;
+  computed?: ComputedFields<T>;
 }
 
 // This interface is what you get back from the useForm hook
 export interface FormModel<T> {
+  form: Form<T>;
   model: T;
   fields: MappedFields<T>;
   changes: Partial<T>;
   dirty: boolean;
   valid: boolean;
+  validating: boolean;
   submissionStatus: SubmissionStatus;
-  validations?: Partial<MappedValidation<T>>;
+  validations?: Partial<MappedValidation<T>> | Resolver<T>;
   error?: Error;
+  // errors set from the outside which don't belong to a field
+  formErrors: string[];
   updateFields: (model: Partial<T>) => void;
+  setErrors: Form<T>['setErrors'];
   onSubmit: Form<T>['submit'];
+  // use form.reset(model) to reset to a new model
   reset: () => void;
+  commit: () => void;
   resetError: () => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
 // The actual hook
@@ -33,34 +78,124 @@ export function useForm<T>({
   onSubmit,
   onSubmitError,
   validations,
+  mode,
+  reValidateMode,
+  messages,
+  translate,
+  rerender = true,
+  keyBy,
+  history,
+  persist,
+  modelKey,
+  keepDirty,
+  resetOnSubmit,
+  changesMode,
+  transformers,
+  id,
+  focusFirstInvalid,
+  computed,
 }: UseFormProps<T>): FormModel<T> {
   // Using a custom hook to call a rerender on every change
-  const onUpdate = useForceUpdate();
-  const formRef = useRef<Form<T>>(
-    new Form({
+  const forceUpdate = useForceUpdate();
+  const onUpdate = rerender ? forceUpdate : undefined;
+  const defaultMessages = useContext(FormMessagesContext);
+  const messageOptions = {
+    messages: messages ?? defaultMessages.messages,
+    translate: translate ?? defaultMessages.translate,
+  };
+  const formRef = useRef<Form<T>>();
+  if (!formRef.current) {
+    formRef.current = new Form({
       model,
       onUpdate,
       validations,
+      mode,
+      reValidateMode,
+      ...messageOptions,
+      keyBy,
+      history,
+      persist,
+      resetOnSubmit,
+      changesMode,
+      transformers,
+      id,
+      focusFirstInvalid,
+      computed,
       onSubmit,
       onSubmitError,
-    })
-  );
+    });
+  }
 
   const form = formRef.current;
   form.onSubmit = onSubmit;
   form.onSubmitError = onSubmitError;
+  form.setMessages(messageOptions);
+
+  const initialRef = useRef({ model, modelKey });
+  useEffect(() => {
+    const initial = initialRef.current;
+    const changed =
+      modelKey !== undefined || initial.modelKey !== undefined
+        ? modelKey !== initial.modelKey
+        : !isEqual(model, initial.model);
+    if (changed) {
+      initialRef.current = { model, modelKey };
+      form.reinitialize(model, { keepDirty });
+    }
+  });
 
   return {
+    form,
     model: form.model,
     fields: form.fields,
     changes: form.changes,
     dirty: form.dirty,
     valid: form.valid,
+    validating: form.validating,
     error: form.error,
+    formErrors: form.formErrors,
     submissionStatus: form.submissionStatus,
     updateFields: form.updateFields.bind(form),
+    setErrors: form.setErrors.bind(form),
     onSubmit: form.submit.bind(form),
-    reset: form.reset.bind(form),
+    // not bound, so it can be used as an event handler
+    reset: () => form.reset(),
+    commit: form.commit.bind(form),
     resetError: form.resetError.bind(form),
+    undo: form.undo.bind(form),
+    redo: form.redo.bind(form),
+    canUndo: form.canUndo,
+    canRedo: form.canRedo,
   };
 }
+
+// Rerenders the component whenever the state of the field (or one of its subfields) changes
+export function useField<
+  F extends Pick<Field<unknown>, 'subscribe'> | undefined
+>(field: F): F {
+  const forceUpdate = useForceUpdate();
+  useEffect(() => field?.subscribe(forceUpdate), [field, forceUpdate]);
+  return field;
+}
+
+// Rerenders the component only when the selected state of the form changes
+export function useFormState<T, S>(
+  form: Form<T>,
+  selector: (form: Form<T>) => S
+): S {
+  const forceUpdate = useForceUpdate();
+  const selectorRef = useRef(selector);
+  selectorRef.current = selector;
+  useEffect(() => {
+    // copied, as the model is changed in place
+    let state = deepCopy(selectorRef.current(form));
+    return form.subscribe(() => {
+      const next = selectorRef.current(form);
+      if (!isEqual(state, next)) {
+        state = deepCopy(next);
+        forceUpdate();
+      }
+    });
+  }, [form, forceUpdate]);
+  return selector(form);
+}
@@ -1,2 +1,37 @@
 export { Form } from './form';
-export { useForm } from './hooks';
+export { useField, useForm, useFormState } from './hooks';
+export {
+  createFormHooks,
+  FormProvider,
+  useFieldByPath,
+  useFormContext,
+} from './context';
+export { debounceValidation, dependsOn, each } from './validation';
+export type { ValidationError, ValidationFunction } from './validation';
+export {
+  matchesField,
+  max,
+  maxItems,
+  maxLength,
+  min,
+  minItems,
+  minLength,
+  oneOf,
+  required,
+  when,
+} from './validators';
+export { SubmitError } from './errors';
+export { jsonSchemaResolver } from './schema';
+export type { JsonSchema, Resolver, SchemaIssue } from './schema';
+export { FormMessagesProvider } from './messages';
+export type { ErrorMessages, MessageOptions } from './messages';
+export { memoryStorage } from './persistence';
+export type { DraftStorage, PersistOptions } from './persistence';
+export {
+  dateFormat,
+  decimalFormat,
+  listFormat,
+  numberFormat,
+  ParseError,
+} from './transformers';
+export type { MappedTransformers, Transformer } from './transformers';
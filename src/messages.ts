@@ -0,0 +1,51 @@
+import { createContext, createElement, ReactElement, ReactNode } from 'react';
+import { ValidationError } from './validation';
+
+// Messages for error codes, placeholders like `{min}` are replaced by the parameters of the error
+export type ErrorMessages = Record<
+  string,
+  string | ((error: ValidationError) => string)
+>;
+
+export interface MessageOptions {
+  messages?: ErrorMessages;
+  // takes precedence over messages, return undefined to fall back to them
+  translate?: (error: ValidationError) => string | undefined;
+}
+
+export const FormMessagesContext = createContext<MessageOptions>({});
+
+// Provides default messages for every form within this component
+export function FormMessagesProvider({
+  messages,
+  translate,
+  children,
+}: MessageOptions & { children?: ReactNode }): ReactElement {
+  return createElement(
+    FormMessagesContext.Provider,
+    { value: { messages, translate } },
+    children
+  );
+}
+
+export function formatError(
+  error: ValidationError,
+  { messages, translate }: MessageOptions
+): string {
+  const translation = translate?.(error);
+  if (translation !== undefined) {
+    return translation;
+  }
+  const message = messages?.[error.code];
+  if (typeof message === 'function') {
+    return message(error);
+  }
+  if (message !== undefined) {
+    return message.replace(/\{(\w+)\}/g, (placeholder, key) =>
+      error.params && key in error.params
+        ? String(error.params[key])
+        : placeholder
+    );
+  }
+  return error.message ?? error.code;
+}
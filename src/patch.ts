@@ -0,0 +1,63 @@
+import { deepCopy, isEqual, isPlainObject, uniq } from './util';
+
+// An operation of a JSON Patch (RFC 6902), the paths are JSON Pointers like `/images/0/url`
+export interface PatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move';
+  path: string;
+  from?: string;
+  value?: unknown;
+}
+
+// Returns the operations turning the original value into the value. Arrays are compared by
+// index, FieldSets compare their elements by key instead to detect moved elements.
+export function createPatch(
+  original: unknown,
+  value: unknown,
+  path: string[] = []
+): PatchOperation[] {
+  if (isEqual(original, value)) {
+    return [];
+  }
+  if (original === undefined) {
+    return [{ op: 'add', path: toPointer(path), value: deepCopy(value) }];
+  }
+  if (value === undefined) {
+    return [{ op: 'remove', path: toPointer(path) }];
+  }
+  if (isPlainObject(original) && isPlainObject(value)) {
+    return uniq([...Object.keys(original), ...Object.keys(value)]).flatMap(
+      (key) => createPatch(original[key], value[key], [...path, key])
+    );
+  }
+  if (Array.isArray(original) && Array.isArray(value)) {
+    const length = Math.min(original.length, value.length);
+    const operations = value
+      .slice(0, length)
+      .flatMap((e, index) =>
+        createPatch(original[index], e, [...path, String(index)])
+      );
+    // removed from the end, so the indices of the other elements stay the same
+    for (let index = original.length - 1; index >= length; index--) {
+      operations.push({
+        op: 'remove',
+        path: toPointer([...path, String(index)]),
+      });
+    }
+    value.slice(length).forEach((e, index) => {
+      operations.push({
+        op: 'add',
+        path: toPointer([...path, String(length + index)]),
+        value: deepCopy(e),
+      });
+    });
+    return operations;
+  }
+  return [{ op: 'replace', path: toPointer(path), value: deepCopy(value) }];
+}
+
+// Escapes the keys as defined by RFC 6901, e.g. ['a/b', 'c'] becomes `/a~1b/c`
+export function toPointer(path: string[]): string {
+  return path
+    .map((e) => `/${e.replace(/~/g, '~0').replace(/\//g, '~1')}`)
+    .join('');
+}
@@ -0,0 +1,43 @@
+// Typed paths of a model, e.g. `address.streetName` or `images.0.url`
+
+type Primitive =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date;
+
+type Join<K extends string, P> = P extends string ? `${K}.${P}` : never;
+
+// limits the depth of paths, recursive types would be infinite otherwise
+type Previous = [never, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+export type Path<T, Depth extends number = 10> = [Depth] extends [never]
+  ? never
+  : T extends Primitive
+  ? never
+  : T extends ReadonlyArray<infer E>
+  ? `${number}` | Join<`${number}`, Path<NonNullable<E>, Previous[Depth]>>
+  : {
+      [K in keyof T & string]-?:
+        | K
+        | Join<K, Path<NonNullable<T[K]>, Previous[Depth]>>;
+    }[keyof T & string];
+
+// The type of the value at the path
+export type PathValue<T, P extends string> = T extends ReadonlyArray<infer E>
+  ? P extends `${number}.${infer Rest}`
+    ? PathValue<NonNullable<E>, Rest>
+    : P extends `${number}`
+    ? E
+    : never
+  : P extends `${infer K}.${infer Rest}`
+  ? K extends keyof T
+    ? PathValue<NonNullable<T[K]>, Rest>
+    : never
+  : P extends keyof T
+  ? T[P]
+  : never;
@@ -0,0 +1,92 @@
+// The subset of the Web Storage API used for drafts, so `localStorage` and `sessionStorage` can be used directly
+export interface DraftStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface PersistOptions {
+  key: string;
+  // defaults to localStorage
+  storage?: DraftStorage;
+  // drafts of other versions are discarded, change it whenever the model changes incompatibly
+  version?: number | string;
+  // the minimum time between two saves in milliseconds
+  throttle?: number;
+}
+
+export interface Draft<T> {
+  model: T;
+  // the paths of the touched fields
+  touched: string[][];
+}
+
+interface StoredDraft<T> extends Draft<T> {
+  version: number | string;
+}
+
+// Keeps drafts in memory only, e.g. for tests or server side rendering
+export function memoryStorage(): DraftStorage {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+// Returns the stored draft, drafts of other versions or invalid drafts are removed
+export function loadDraft<T>(options: PersistOptions): Draft<T> | undefined {
+  return withStorage(options, (storage) => {
+    const item = storage.getItem(options.key);
+    if (!item) {
+      return undefined;
+    }
+    try {
+      const draft: StoredDraft<T> = JSON.parse(item);
+      if (draft.version === (options.version ?? 1)) {
+        return { model: draft.model, touched: draft.touched ?? [] };
+      }
+    } catch (error) {
+      // the draft is discarded below
+    }
+    storage.removeItem(options.key);
+    return undefined;
+  });
+}
+
+export function saveDraft<T>(options: PersistOptions, draft: Draft<T>): void {
+  const stored: StoredDraft<T> = { ...draft, version: options.version ?? 1 };
+  withStorage(options, (storage) =>
+    storage.setItem(options.key, JSON.stringify(stored))
+  );
+}
+
+export function clearDraft(options: PersistOptions): void {
+  withStorage(options, (storage) => storage.removeItem(options.key));
+}
+
+// Drafts are saved on a best effort basis: if the storage is full or can't be accessed at all
+// (e.g. in sandboxed iframes), the draft is skipped instead of breaking the form.
+function withStorage<R>(
+  options: PersistOptions,
+  use: (storage: DraftStorage) => R
+): R | undefined {
+  try {
+    const storage = getStorage(options);
+    return storage ? use(storage) : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+function getStorage(options: PersistOptions): DraftStorage | undefined {
+  if (options.storage) {
+    return options.storage;
+  }
+  return typeof localStorage === 'undefined' ? undefined : localStorage;
+}
@@ -0,0 +1,96 @@
+import { JsonSchema, validateJsonSchema } from './schema';
+
+const schema: JsonSchema = {
+  type: 'object',
+  required: ['name', 'address'],
+  properties: {
+    name: { type: 'string', minLength: 2, maxLength: 5 },
+    email: { type: 'string', format: 'email' },
+    age: { type: 'integer', minimum: 18 },
+    role: { enum: ['admin', 'user'] },
+    address: {
+      type: 'object',
+      required: ['streetName'],
+      properties: { streetName: { type: 'string', pattern: '^[A-Z]' } },
+    },
+    tags: {
+      type: 'array',
+      maxItems: 2,
+      uniqueItems: true,
+      items: { type: 'string', minLength: 1 },
+    },
+    nickname: { type: ['string', 'null'] },
+  },
+};
+
+describe(validateJsonSchema, () => {
+  it('accepts valid values', () => {
+    expect(
+      validateJsonSchema(
+        {
+          name: 'Fred',
+          email: 'fred@example.com',
+          age: 20,
+          role: 'admin',
+          address: { streetName: 'Main Street' },
+          tags: ['a', 'b'],
+          nickname: null,
+        },
+        schema
+      )
+    ).toEqual([]);
+  });
+
+  it('reports missing required properties', () => {
+    expect(validateJsonSchema({ address: {} }, schema)).toEqual([
+      { path: ['name'], message: 'required-field' },
+      { path: ['address', 'streetName'], message: 'required-field' },
+    ]);
+  });
+
+  it('reports errors at the path of the property', () => {
+    expect(
+      validateJsonSchema(
+        {
+          name: 'F',
+          email: 'fred',
+          age: 17.5,
+          role: 'guest',
+          address: { streetName: 'main street' },
+          tags: ['a', '', 'a'],
+          nickname: 1,
+        },
+        schema
+      )
+    ).toEqual([
+      { path: ['name'], message: 'too-short' },
+      { path: ['email'], message: 'invalid-email-address' },
+      { path: ['age'], message: 'invalid-type' },
+      { path: ['role'], message: 'invalid-value' },
+      { path: ['address', 'streetName'], message: 'regex-failed' },
+      { path: ['tags'], message: 'too-many-items' },
+      { path: ['tags'], message: 'duplicate-items' },
+      { path: ['tags', '1'], message: 'too-short' },
+      { path: ['nickname'], message: 'invalid-type' },
+    ]);
+  });
+
+  it('combines schemas', () => {
+    const number: JsonSchema = {
+      anyOf: [
+        { type: 'number', maximum: 5 },
+        { type: 'number', minimum: 10 },
+      ],
+    };
+    expect(validateJsonSchema(3, number)).toEqual([]);
+    expect(validateJsonSchema(7, number)).toEqual([
+      { path: [], message: 'invalid-value' },
+    ]);
+    expect(
+      validateJsonSchema(7, { allOf: [{ minimum: 8 }, { maximum: 6 }] })
+    ).toEqual([
+      { path: [], message: 'too-small' },
+      { path: [], message: 'too-large' },
+    ]);
+  });
+});
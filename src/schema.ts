@@ -0,0 +1,217 @@
+import { ValidationError, validateValue } from './validation';
+
+// An error reported by a schema, the path points to the field the error belongs to.
+// Issues of Zod (`error.issues`) can be returned as they are.
+export interface SchemaIssue {
+  path: string | Array<string | number>;
+  message: string;
+}
+
+// Validates the whole model at once, e.g. by using a Zod, Yup or JSON schema.
+// The signal is aborted as soon as a newer validation starts.
+export type Resolver<T> = (
+  model: T,
+  options: { signal: AbortSignal }
+) => SchemaIssue[] | Promise<SchemaIssue[]>;
+
+type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+// The supported subset of JSON Schema (draft-07)
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  // strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: 'email' | 'uri' | 'date' | 'date-time';
+  // numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  // objects
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  // arrays
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  // combinations
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+}
+
+export function jsonSchemaResolver<T>(schema: JsonSchema): Resolver<T> {
+  return (model) => validateJsonSchema(model, schema);
+}
+
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string[] = []
+): SchemaIssue[] {
+  const issue = (message: string): SchemaIssue[] => [{ path, message }];
+
+  if (schema.type && ![schema.type].flat().some((e) => hasType(value, e))) {
+    return issue('invalid-type');
+  }
+  if (schema.enum && !schema.enum.some((e) => e === value)) {
+    return issue('invalid-value');
+  }
+  if ('const' in schema && schema.const !== value) {
+    return issue('invalid-value');
+  }
+  const issues: SchemaIssue[] = [
+    ...(schema.allOf ?? []).flatMap((e) => validateJsonSchema(value, e, path)),
+  ];
+  if (
+    schema.anyOf &&
+    !schema.anyOf.some((e) => !validateJsonSchema(value, e, path).length)
+  ) {
+    issues.push(...issue('invalid-value'));
+  }
+  if (
+    schema.oneOf &&
+    schema.oneOf.filter((e) => !validateJsonSchema(value, e, path).length)
+      .length !== 1
+  ) {
+    issues.push(...issue('invalid-value'));
+  }
+
+  if (typeof value === 'string') {
+    issues.push(...validateString(value, schema, path));
+  } else if (typeof value === 'number') {
+    issues.push(...validateNumber(value, schema, path));
+  } else if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push(...issue('too-few-items'));
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push(...issue('too-many-items'));
+    }
+    if (
+      schema.uniqueItems &&
+      new Set(value.map((e) => JSON.stringify(e))).size !== value.length
+    ) {
+      issues.push(...issue('duplicate-items'));
+    }
+    const items = schema.items;
+    if (items) {
+      value.forEach((e, index) =>
+        issues.push(...validateJsonSchema(e, items, [...path, String(index)]))
+      );
+    }
+  } else if (value && typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    (schema.required ?? []).forEach((key) => {
+      if (object[key] === undefined) {
+        issues.push({ path: [...path, key], message: 'required-field' });
+      }
+    });
+    Object.entries(schema.properties ?? {}).forEach(([key, property]) => {
+      if (object[key] !== undefined) {
+        issues.push(
+          ...validateJsonSchema(object[key], property, [...path, key])
+        );
+      }
+    });
+  }
+  return issues;
+}
+
+function validateString(
+  value: string,
+  schema: JsonSchema,
+  path: string[]
+): SchemaIssue[] {
+  const errors: string[] = [];
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push('too-short');
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    errors.push('too-long');
+  }
+  if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+    errors.push('regex-failed');
+  }
+  switch (schema.format) {
+    case 'email':
+      errors.push(
+        ...(validateValue(value, null, 'email') as ValidationError[]).map(
+          (e) => e.code
+        )
+      );
+      break;
+    case 'uri':
+      errors.push(
+        ...(validateValue(value, null, 'website') as ValidationError[]).map(
+          (e) => e.code
+        )
+      );
+      break;
+    case 'date':
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value))) {
+        errors.push('invalid-date');
+      }
+      break;
+    case 'date-time':
+      if (!/^\d{4}-\d{2}-\d{2}T/.test(value) || isNaN(Date.parse(value))) {
+        errors.push('invalid-date');
+      }
+      break;
+  }
+  return errors.map((message) => ({ path, message }));
+}
+
+function validateNumber(
+  value: number,
+  schema: JsonSchema,
+  path: string[]
+): SchemaIssue[] {
+  const errors: string[] = [];
+  if (
+    (schema.minimum !== undefined && value < schema.minimum) ||
+    (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum)
+  ) {
+    errors.push('too-small');
+  }
+  if (
+    (schema.maximum !== undefined && value > schema.maximum) ||
+    (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum)
+  ) {
+    errors.push('too-large');
+  }
+  if (schema.multipleOf !== undefined && value % schema.multipleOf !== 0) {
+    errors.push('invalid-number');
+  }
+  return errors.map((message) => ({ path, message }));
+}
+
+function hasType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return !!value && typeof value === 'object' && !Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && !isNaN(value);
+    default:
+      return typeof value === type;
+  }
+}
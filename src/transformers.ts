@@ -0,0 +1,145 @@
+import { ValidationError } from './validation';
+
+// Converts between the model value of a field and the string of its input.
+// `parse` throws (preferably a ParseError) if the input is invalid.
+export interface Transformer<T> {
+  format: (value: T) => string;
+  parse: (input: string) => T;
+}
+
+// Transformers for the fields of a model, like validations. A transformer for an array
+// converts the whole array, a mapped object applies to the fields of its elements.
+// Like inputs, transformers may leave a field empty, combine them with `required` if necessary.
+export type MappedTransformers<T> = Partial<{
+  [P in keyof T]:
+    | Transformer<T[P] | undefined | null>
+    | (NonNullable<T[P]> extends Array<infer E>
+        ? MappedTransformers<E>
+        : MappedTransformers<T[P]>);
+}>;
+
+// Throw this error inside of `parse` to show the code as an error of the field
+export class ParseError extends Error {
+  code: string;
+  params?: Record<string, unknown>;
+
+  constructor(code: string, params?: Record<string, unknown>) {
+    super(code);
+    this.name = 'ParseError';
+    this.code = code;
+    this.params = params;
+  }
+}
+
+export function isTransformer<T>(
+  transformer: unknown
+): transformer is Transformer<T> {
+  return (
+    typeof (transformer as Transformer<T> | undefined)?.parse === 'function' &&
+    typeof (transformer as Transformer<T> | undefined)?.format === 'function'
+  );
+}
+
+// Other errors are shown with their message
+export function toParseError(error: unknown): ValidationError {
+  if (error instanceof ParseError) {
+    return { code: error.code, params: error.params };
+  }
+  return {
+    code: 'invalid-format',
+    message: error instanceof Error ? error.message : undefined,
+  };
+}
+
+// Numbers, empty inputs are parsed to undefined like in the following transformers
+export function numberFormat(): Transformer<number | undefined | null> {
+  return decimalFormat();
+}
+
+// Numbers with localized separators, e.g. `1.234,50` with
+// `{ decimalSeparator: ',', thousandsSeparator: '.', fractionDigits: 2 }`
+export function decimalFormat({
+  decimalSeparator = '.',
+  thousandsSeparator = '',
+  fractionDigits,
+}: {
+  decimalSeparator?: string;
+  thousandsSeparator?: string;
+  fractionDigits?: number;
+} = {}): Transformer<number | undefined | null> {
+  return {
+    format: (value) => {
+      if (value === undefined || value === null || Number.isNaN(value)) {
+        return '';
+      }
+      const [integer, fraction] = (
+        fractionDigits === undefined
+          ? String(value)
+          : value.toFixed(fractionDigits)
+      ).split('.');
+      const grouped = integer.replace(
+        /\B(?=(\d{3})+(?!\d))/g,
+        thousandsSeparator
+      );
+      return fraction === undefined
+        ? grouped
+        : `${grouped}${decimalSeparator}${fraction}`;
+    },
+    parse: (input) => {
+      let normalized = input.trim();
+      if (normalized === '') {
+        return undefined;
+      }
+      if (thousandsSeparator) {
+        normalized = normalized.split(thousandsSeparator).join('');
+      }
+      normalized = normalized.split(decimalSeparator).join('.');
+      if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(normalized)) {
+        throw new ParseError('invalid-number');
+      }
+      return Number(normalized);
+    },
+  };
+}
+
+// Dates as `YYYY-MM-DD` in the local time zone, like the value of `<input type="date">`
+export function dateFormat(): Transformer<Date | undefined | null> {
+  return {
+    format: (value) => {
+      if (!value || isNaN(value.getTime())) {
+        return '';
+      }
+      return [value.getFullYear(), value.getMonth() + 1, value.getDate()]
+        .map((e, index) => String(e).padStart(index === 0 ? 4 : 2, '0'))
+        .join('-');
+    },
+    parse: (input) => {
+      if (input.trim() === '') {
+        return undefined;
+      }
+      const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(input.trim());
+      const date =
+        match &&
+        new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+      // rejects dates like 2021-02-30
+      if (!date || date.getDate() !== Number(match[3])) {
+        throw new ParseError('invalid-date');
+      }
+      return date;
+    },
+  };
+}
+
+// Lists like `news, sports`, whitespace around the entries and empty entries are ignored
+export function listFormat(
+  separator = ', '
+): Transformer<string[] | undefined | null> {
+  return {
+    format: (value) => (value ?? []).join(separator),
+    parse: (input) =>
+      input
+        .split(separator.trim() || separator)
+        .map((e) => e.trim())
+        .filter(Boolean),
+  };
+}
@@ -1,14 +1,40 @@
-import { useState } from 'react';
+import { useCallback, useState } from 'react';
 
 export function useForceUpdate(): () => void {
   const [, updateState] = useState(0);
-  return () => {
+  return useCallback(() => {
     updateState((state) => state + 1);
-  };
+  }, []);
 }
 
-export function isEqual<T>(a: T, b: T): boolean {
-  return JSON.stringify(a) === JSON.stringify(b);
+// Compares values structurally, properties with undefined values are ignored.
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') {
+    return Number.isNaN(a) && Number.isNaN(b);
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return (
+      a instanceof Date && b instanceof Date && a.getTime() === b.getTime()
+    );
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((e, index) => isEqual(e, b[index]))
+    );
+  }
+  const keys = (value: object): string[] =>
+    Object.keys(value).filter((key) => value[key] !== undefined);
+  const keysA = keys(a);
+  return (
+    keysA.length === keys(b).length &&
+    keysA.every((key) => isEqual(a[key], b[key]))
+  );
 }
 
 export function uniq(value: string[]): string[] {
@@ -22,8 +48,50 @@ export function compact<T>(array: Array<T | undefined | false | null>): T[] {
 export function copy<T>(value: T): T {
   if (Array.isArray(value)) {
     return value.slice() as unknown as T;
-  } else if (value && typeof value === 'object') {
+  } else if (isPlainObject(value)) {
     return { ...value };
   }
+  // other objects like dates or files are kept as they are
+  return value;
+}
+
+// Whether the value is an object literal, as opposed to arrays, dates or other class instances
+export function isPlainObject(
+  value: unknown
+): value is Record<string, unknown> {
+  return !!value && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+// Copies arrays and plain objects recursively, so later changes of the value don't affect the copy
+export function deepCopy<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(deepCopy) as unknown as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, e]) => [key, deepCopy(e)])
+    ) as unknown as T;
+  }
   return value;
 }
+
+// Splits a field path like `images[0].url` or `images.0.url` into its keys
+export function parsePath(path: string): string[] {
+  return path.split(/[.[\]]/).filter(Boolean);
+}
+
+// Reads the value at the given path, e.g. ['images', '0', 'url']
+export function valueAt(value: unknown, path: string[]): unknown {
+  return path.reduce<unknown>(
+    (current, key) =>
+      current && typeof current === 'object'
+        ? (current as Record<string, unknown>)[key]
+        : undefined,
+    value
+  );
+}
+
+// Whether one of the paths contains the other one
+export function overlaps(a: string[], b: string[]): boolean {
+  return a.every((e, index) => index >= b.length || b[index] === e);
+}
@@ -1,10 +1,37 @@
-import { compact } from './util';
+import { compact, isPlainObject, parsePath } from './util';
 
-type ValidationFunction<T, Model> = (content: {
-  value: T;
-  model: Model;
-}) => string[];
-type ValidationString = 'required' | 'json' | 'email' | 'website' | 'number';
+// An error code (e.g. `too-short`) with the parameters of the failed validation (e.g. `{ min: 3 }`).
+// The message is used unless the form defines a message for the code.
+export interface ValidationError {
+  code: string;
+  params?: Record<string, unknown>;
+  message?: string;
+}
+
+type ValidationResult =
+  | Array<string | ValidationError>
+  | Promise<Array<string | ValidationError>>;
+
+// Validation functions can return a promise to validate against a backend.
+// The signal is aborted as soon as a newer validation of the same field starts.
+// Use `dependsOn` to declare which other fields the function depends on.
+export interface ValidationFunction<T, Model> {
+  (content: { value: T; model: Model; signal: AbortSignal }): ValidationResult;
+  deps?: string[];
+  touch?: boolean;
+  // marks the field as required, a function decides it based on the current model
+  required?: boolean | ((content: { value: T; model: Model }) => boolean);
+  // the validation of the elements, if created by `each`
+  each?: unknown;
+}
+type ValidationString =
+  | 'required'
+  | 'json'
+  | 'email'
+  | 'website'
+  | 'number'
+  | 'integer'
+  | 'date';
 
 type ValidationType<T, Model> =
   | RegExp
@@ -15,45 +42,227 @@ export type FieldValidation<T, Model> =
   | ValidationType<T, Model>
   | ValidationType<T, Model>[];
 
+// Arrays take validations of the array itself (e.g. `minItems(1)`), validations of
+// their elements (e.g. `email` or `each(...)`) or mapped validations of their elements.
 export type MappedValidation<T> = Partial<{
-  [P in keyof T]: FieldValidation<T, T> | MappedValidation<T[P]>;
+  [P in keyof T]:
+    | FieldValidation<T[P], T>
+    | (NonNullable<T[P]> extends Array<infer E>
+        ? MappedValidation<E>
+        : MappedValidation<T[P]>);
 }>;
 
 export function validateValue<T, Model>(
   value: T,
   model: Model,
-  validation: FieldValidation<T, Model>
-): string[] {
+  validation: FieldValidation<T, Model>,
+  signal: AbortSignal = new AbortController().signal
+): ValidationError[] | Promise<ValidationError[]> {
   if (typeof validation === 'function') {
-    return validation({ value, model }) ?? [];
-  }
-  if (Array.isArray(value)) {
-    return value.flatMap((e) => validateValue(e, model, validation));
+    const result = validation({ value, model, signal });
+    if (result instanceof Promise) {
+      return result.then((errors) => (errors ?? []).map(toValidationError));
+    }
+    return (result ?? []).map(toValidationError);
   }
   if (Array.isArray(validation)) {
-    return validation.flatMap((e) => validateValue(value, model, e));
+    return combineResults(
+      validation.map((e) => validateValue(value, model, e, signal))
+    );
+  }
+  if (validation === 'required') {
+    return isBlank(value) ? [{ code: 'required-field' }] : [];
   }
   if (typeof validation === 'string') {
-    return compact([runValidationString(value, validation)]);
+    return compact([runValidationString(value, validation)]).map(
+      toValidationError
+    );
   }
   if (validation instanceof RegExp) {
     if (!validation.test(String(value))) {
-      return ['regex-failed'];
+      return [{ code: 'regex-failed' }];
     }
   }
   return [];
 }
 
+// Validates every element of an array, e.g. `each(minLength(3))`.
+// FieldSets apply the validation to their elements instead, so the errors are shown there.
+export function each<T, Model>(
+  validation: FieldValidation<T, Model> | MappedValidation<T>
+): ValidationFunction<T[] | undefined | null, Model> {
+  return Object.assign(
+    ({
+      value,
+      model,
+      signal,
+    }: Parameters<ValidationFunction<T[] | undefined | null, Model>>[0]) =>
+      Array.isArray(value) && !isMappedValidation(validation)
+        ? combineResults(
+            value.map((e) =>
+              validateValue(
+                e,
+                model,
+                validation as FieldValidation<T, Model>,
+                signal
+              )
+            )
+          )
+        : [],
+    // the elements declare their own dependencies
+    { each: validation, deps: [] }
+  );
+}
+
+// Splits the validations of a FieldSet into the validations of the array itself
+// (`required` and functions) and the validations of its elements.
+export function splitArrayValidation<T, Model>(
+  validation: FieldValidation<T, Model> | MappedValidation<T>
+): {
+  array: Array<ValidationType<T, Model>>;
+  elements: FieldValidation<unknown, Model> | MappedValidation<unknown>;
+} {
+  if (isMappedValidation(validation)) {
+    return { array: [], elements: validation };
+  }
+  const array: Array<ValidationType<T, Model>> = [];
+  const elements: unknown[] = [];
+  ([] as Array<ValidationType<T, Model>>).concat(validation).forEach((e) => {
+    if (typeof e === 'function' && e.each) {
+      elements.push(e.each);
+    } else if (typeof e === 'function' || e === 'required') {
+      array.push(e);
+    } else {
+      elements.push(e);
+    }
+  });
+  const mapped = elements.find(isMappedValidation);
+  return {
+    array,
+    elements: (mapped ?? elements.flat()) as
+      | FieldValidation<unknown, Model>
+      | MappedValidation<unknown>,
+  };
+}
+
+// Whether the validation is an object of validations for each key of the value
+export function isMappedValidation<T>(
+  validation: unknown
+): validation is MappedValidation<T> {
+  return (
+    typeof validation === 'object' &&
+    !!validation &&
+    !Array.isArray(validation) &&
+    !(validation instanceof RegExp)
+  );
+}
+
+export function toValidationError(
+  error: string | ValidationError
+): ValidationError {
+  return typeof error === 'string' ? { code: error } : error;
+}
+
+export interface ValidationDependencies {
+  // the paths of the fields the validation depends on, besides its own field
+  paths: string[][];
+  // validation functions without declared dependencies might depend on any field of the model
+  model: boolean;
+  // touch the field when one of its dependencies changes
+  touch: boolean;
+}
+
+// Declares the paths of the fields (e.g. `address.streetName`) a validation function depends on.
+// It is then only run again when its own field or one of these fields changes.
+export function dependsOn<T, Model>(
+  deps: string[],
+  validation: ValidationFunction<T, Model>,
+  { touch = false }: { touch?: boolean } = {}
+): ValidationFunction<T, Model> {
+  return Object.assign(
+    (content: Parameters<typeof validation>[0]) => validation(content),
+    { deps, touch, required: validation.required }
+  );
+}
+
+// Whether the validation currently requires a value, e.g. it contains `required`
+export function isRequired<T, Model>(
+  validation: FieldValidation<T, Model> | MappedValidation<T>,
+  content: { value: T; model: Model }
+): boolean {
+  return ([] as unknown[]).concat(validation).some((e) => {
+    if (typeof e === 'function') {
+      const { required } = e as ValidationFunction<T, Model>;
+      return typeof required === 'function' ? required(content) : !!required;
+    }
+    return e === 'required';
+  });
+}
+
+export function getDependencies<T, Model>(
+  validation: FieldValidation<T, Model> | MappedValidation<T>
+): ValidationDependencies {
+  const dependencies: ValidationDependencies = {
+    paths: [],
+    model: false,
+    touch: false,
+  };
+  ([] as unknown[]).concat(validation).forEach((e) => {
+    if (typeof e !== 'function') return;
+    const { deps, touch } = e as ValidationFunction<T, Model>;
+    if (deps) {
+      dependencies.paths.push(...deps.map(parsePath));
+      dependencies.touch = dependencies.touch || !!touch;
+    } else {
+      dependencies.model = true;
+    }
+  });
+  return dependencies;
+}
+
+// Delays an (async) validation function until no new value was validated for
+// `wait` milliseconds, so a backend is not called on every keystroke.
+export function debounceValidation<T, Model>(
+  validation: ValidationFunction<T, Model>,
+  wait: number
+): ValidationFunction<T, Model> {
+  const debounced: ValidationFunction<T, Model> = (content) =>
+    new Promise((resolve, reject) => {
+      const onAbort = (): void => {
+        clearTimeout(timeout);
+        resolve([]);
+      };
+      const timeout = setTimeout(() => {
+        content.signal.removeEventListener('abort', onAbort);
+        // errors thrown synchronously reject the promise as well
+        new Promise<ValidationResult>((run) => run(validation(content))).then(
+          resolve,
+          reject
+        );
+      }, wait);
+      content.signal.addEventListener('abort', onAbort, { once: true });
+    });
+  // keep declared dependencies
+  debounced.deps = validation.deps;
+  debounced.touch = validation.touch;
+  debounced.required = validation.required;
+  return debounced;
+}
+
+function combineResults(
+  results: Array<ValidationError[] | Promise<ValidationError[]>>
+): ValidationError[] | Promise<ValidationError[]> {
+  if (results.some((e) => e instanceof Promise)) {
+    return Promise.all(results).then((e) => e.flat());
+  }
+  return (results as ValidationError[][]).flat();
+}
+
 function runValidationString<T>(
   value: T,
   type: ValidationString
 ): string | undefined {
   switch (type) {
-    case 'required':
-      if (typeof value === 'string' && !value) {
-        return 'required-field';
-      }
-      break;
     case 'email':
       const emailReg =
         /(?:[a-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*|"(?:[\x01-\x08\x0b\x0c\x0e-\x1f\x21\x23-\x5b\x5d-\x7f]|\\[\x01-\x09\x0b\x0c\x0e-\x7f])*")@(?:(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z0-9](?:[a-z0-9-]*[a-z0-9])?|\[(?:(?:(2(5[0-5]|[0-4][0-9])|1[0-9][0-9]|[1-9]?[0-9]))\.){3}(?:(2(5[0-5]|[0-4][0-9])|1[0-9][0-9]|[1-9]?[0-9])|[a-z0-9-]*[a-z0-9]:(?:[\x01-\x08\x0b\x0c\x0e-\x1f\x21-\x5a\x53-\x7f]|\\[\x01-\x09\x0b\x0c\x0e-\x7f])+)\])/;
@@ -77,6 +286,21 @@ function runValidationString<T>(
         return 'invalid-website-format';
       }
       break;
+    case 'integer':
+      if (!isEmpty(value) && !Number.isInteger(Number(value))) {
+        return 'invalid-integer';
+      }
+      break;
+    case 'date':
+      if (
+        !isEmpty(value) &&
+        isNaN(
+          value instanceof Date ? value.getTime() : Date.parse(String(value))
+        )
+      ) {
+        return 'invalid-date';
+      }
+      break;
     case 'number':
       if (isNaN(Number(value))) {
         return 'invalid-number';
@@ -86,3 +310,23 @@ function runValidationString<T>(
   }
   return undefined;
 }
+
+export function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+// Whether a value does not satisfy `required`: besides empty values this includes NaN, false
+// (e.g. an unchecked checkbox), empty arrays and plain objects with only blank values.
+// Other objects (e.g. dates or files) are never blank.
+export function isBlank(value: unknown): boolean {
+  if (isEmpty(value) || value === false || Number.isNaN(value)) {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0;
+  }
+  if (isPlainObject(value)) {
+    return Object.values(value).every(isBlank);
+  }
+  return false;
+}
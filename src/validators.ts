@@ -0,0 +1,130 @@
+import {
+  dependsOn,
+  FieldValidation,
+  isBlank,
+  isEmpty,
+  isRequired,
+  ValidationError,
+  ValidationFunction,
+  validateValue,
+} from './validation';
+import { parsePath, valueAt } from './util';
+
+// Parameterized validations. Apart from matchesField, empty values are considered
+// valid, combine them with `required` to enforce a value.
+
+// Like the `required` validation string, but with a custom check whether the value is empty
+export function required<T>(
+  isEmptyValue: (value: T) => boolean = isBlank
+): ValidationFunction<T, unknown> {
+  return Object.assign(
+    ({ value }: { value: T }) =>
+      isEmptyValue(value) ? [{ code: 'required-field' }] : [],
+    // it does not depend on other fields
+    { deps: [], required: true }
+  );
+}
+
+// Only applies the validation while the condition is met, e.g. to require a field
+// depending on the value of another one. The field is only marked as required meanwhile.
+export function when<T, Model>(
+  condition: (content: { value: T; model: Model }) => boolean,
+  validation: FieldValidation<T, Model>
+): ValidationFunction<T, Model> {
+  return Object.assign(
+    ({ value, model, signal }: Parameters<ValidationFunction<T, Model>>[0]) =>
+      condition({ value, model })
+        ? validateValue(value, model, validation, signal)
+        : [],
+    {
+      required: (content: { value: T; model: Model }) =>
+        condition(content) && isRequired(validation, content),
+    }
+  );
+}
+
+export function minLength(
+  min: number
+): ValidationFunction<string | undefined | null, unknown> {
+  return ownValue(({ value }) =>
+    !isEmpty(value) && String(value).length < min
+      ? [{ code: 'too-short', params: { min } }]
+      : []
+  );
+}
+
+export function maxLength(
+  max: number
+): ValidationFunction<string | undefined | null, unknown> {
+  return ownValue(({ value }) =>
+    !isEmpty(value) && String(value).length > max
+      ? [{ code: 'too-long', params: { max } }]
+      : []
+  );
+}
+
+export function min(
+  min: number
+): ValidationFunction<number | string | undefined | null, unknown> {
+  return ownValue(({ value }) =>
+    !isEmpty(value) && Number(value) < min
+      ? [{ code: 'too-small', params: { min } }]
+      : []
+  );
+}
+
+export function max(
+  max: number
+): ValidationFunction<number | string | undefined | null, unknown> {
+  return ownValue(({ value }) =>
+    !isEmpty(value) && Number(value) > max
+      ? [{ code: 'too-large', params: { max } }]
+      : []
+  );
+}
+
+export function oneOf<T>(values: T[]): ValidationFunction<T, unknown> {
+  return ownValue(({ value }) =>
+    !isEmpty(value) && !values.includes(value)
+      ? [{ code: 'invalid-value', params: { values } }]
+      : []
+  );
+}
+
+export function minItems(
+  min: number
+): ValidationFunction<unknown[] | undefined | null, unknown> {
+  return ownValue(({ value }) =>
+    Array.isArray(value) && value.length < min
+      ? [{ code: 'too-few-items', params: { min } }]
+      : []
+  );
+}
+
+export function maxItems(
+  max: number
+): ValidationFunction<unknown[] | undefined | null, unknown> {
+  return ownValue(({ value }) =>
+    Array.isArray(value) && value.length > max
+      ? [{ code: 'too-many-items', params: { max } }]
+      : []
+  );
+}
+
+// Compares the value to the field at the given path (e.g. a password confirmation)
+export function matchesField(
+  field: string
+): ValidationFunction<unknown, unknown> {
+  return dependsOn([field], ({ value, model }): ValidationError[] =>
+    value === valueAt(model, parsePath(field))
+      ? []
+      : [{ code: 'fields-differ', params: { field } }]
+  );
+}
+
+// The validation only depends on the value of its own field, so it is not run again on other changes
+function ownValue<T>(
+  validation: (content: { value: T }) => ValidationError[]
+): ValidationFunction<T, unknown> {
+  return Object.assign(validation, { deps: [] });
+}